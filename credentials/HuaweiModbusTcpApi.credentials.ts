@@ -0,0 +1,141 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+/**
+ * Connection settings for a Huawei Modbus endpoint (SmartLogger or inverter),
+ * shared by all SmartLogger and SUN2000 nodes that select it
+ */
+export class HuaweiModbusTcpApi implements ICredentialType {
+	name = 'huaweiModbusTcpApi';
+
+	displayName = 'Huawei Modbus TCP API';
+
+	documentationUrl = 'https://github.com/Edward-Tollemache/n8n-nodes-huaweisolar#credentials';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Transport',
+			name: 'transport',
+			type: 'options',
+			options: [
+				{
+					name: 'Modbus TCP',
+					value: 'tcp',
+				},
+				{
+					name: 'Modbus RTU over TCP',
+					value: 'rtuOverTcp',
+					description: 'RTU frames through a transparent serial-to-Ethernet converter',
+				},
+				{
+					name: 'Modbus RTU Serial',
+					value: 'serial',
+					description: 'Local RS485 adapter',
+				},
+			],
+			default: 'tcp',
+		},
+		{
+			displayName: 'Host',
+			name: 'host',
+			type: 'string',
+			default: '',
+			placeholder: '192.168.1.10',
+			description: 'IP address or hostname of the SmartLogger or inverter',
+			required: true,
+			displayOptions: {
+				hide: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Port',
+			name: 'port',
+			type: 'number',
+			default: 502,
+			description: 'Modbus TCP port (default: 502)',
+			required: true,
+			displayOptions: {
+				hide: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Serial Port',
+			name: 'serialPath',
+			type: 'string',
+			default: '/dev/ttyUSB0',
+			description: 'Serial device of the RS485 adapter (e.g. /dev/ttyUSB0 or COM3)',
+			displayOptions: {
+				show: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Baud Rate',
+			name: 'baudRate',
+			type: 'number',
+			default: 9600,
+			description: 'Serial speed (Huawei default: 9600)',
+			displayOptions: {
+				show: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Parity',
+			name: 'parity',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'Even',
+					value: 'even',
+				},
+				{
+					name: 'Odd',
+					value: 'odd',
+				},
+			],
+			default: 'none',
+			displayOptions: {
+				show: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Unit ID',
+			name: 'unitId',
+			type: 'number',
+			default: 3,
+			description: 'Default Modbus unit ID of the device (3 for the SmartLogger)',
+		},
+		{
+			displayName: 'Connection Timeout (Ms)',
+			name: 'timeout',
+			type: 'number',
+			default: 5000,
+			description: 'Timeout per request in milliseconds',
+		},
+		{
+			displayName: 'Retry Attempts',
+			name: 'retries',
+			type: 'number',
+			default: 3,
+			description: 'Number of retry attempts on failure',
+		},
+		{
+			displayName: 'Modbus TCP has no authentication, so no username or password is stored or sent. For control writes over direct inverter access, enable Modbus TCP write access on the inverter or SDongle.',
+			name: 'authenticationNotice',
+			type: 'notice',
+			default: '',
+		},
+	];
+}
@@ -0,0 +1,305 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { ApplicationError, NodeConnectionType } from 'n8n-workflow';
+
+import { AlarmDefinition, alarmKey, diffAlarms, formatAlarmText } from '../utils/alarms';
+import { getPollConnectionConfig, testModbusCredentials } from '../utils/connection-config';
+import { connectionPool } from '../utils/connection-pool';
+import { connectionProperties } from '../utils/connection-properties';
+import { HuaweiModbusClient, connectionKey, parseAddressList } from '../utils/modbus-utils';
+import { SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { SMARTLOGGER_ALARMS } from '../utils/smartlogger-registers';
+import { SUN2000Functions, Sun2000ConnectionMode } from '../utils/sun2000-functions';
+import { SUN2000_ALARMS } from '../utils/sun2000-registers';
+
+type AlarmSource = 'inverter' | 'smartLogger';
+
+/**
+ * Alarm state of one device, kept in the workflow static data between polls
+ */
+interface AlarmDeviceState {
+	registers: Record<string, number>;   // Alarm register values of the last successful read
+	since: Record<string, string>;       // ISO time each active alarm was raised, keyed by alarmKey()
+}
+
+/**
+ * Alarm registers read from one device in this poll
+ */
+interface AlarmDeviceReading {
+	key: string;                         // Static data key, e.g. 'inverter:12'
+	source: AlarmSource;
+	unitId: number;
+	deviceName: string;
+	definitions: AlarmDefinition[];
+	registers?: Record<string, number>;  // Omitted when the device could not be read
+}
+
+const SUN2000_ALARM_REGISTERS = ['alarm1', 'alarm2', 'alarm3'];
+const SMARTLOGGER_ALARM_REGISTERS = ['alarmInfo1', 'alarmInfo2', 'certificateAlarms'];
+
+export class HuaweiAlarmTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Huawei Solar Alarm Trigger',
+		name: 'huaweiAlarmTrigger',
+		icon: 'file:huaweiAlarmTrigger.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["sources"].join(", ")}}',
+		description: 'Emit an item whenever a SUN2000 or SmartLogger alarm is raised or cleared',
+		defaults: {
+			name: 'Huawei Solar Alarm Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'huaweiModbusTcpApi',
+				required: true,
+				testedBy: 'huaweiModbusTcpApiTest',
+				displayOptions: {
+					show: {
+						connectionSource: ['credentials'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'Alarm Sources',
+				name: 'sources',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Inverters',
+						value: 'inverter',
+						description: 'SUN2000 alarm registers 1-3 (32008-32010)',
+					},
+					{
+						name: 'SmartLogger',
+						value: 'smartLogger',
+						description: 'SmartLogger alarm information and certificate alarms (50000-50002)',
+					},
+				],
+				default: ['inverter', 'smartLogger'],
+				description: 'Devices whose alarms are watched',
+			},
+			{
+				displayName: 'Inverter Addresses',
+				name: 'inverterAddresses',
+				type: 'string',
+				default: '12,13,14,15',
+				placeholder: '12,13,14,15 or 12-15 or 1-2,6,8',
+				description: 'Comma-separated inverter device addresses or ranges (unit ID 0 is accepted in direct mode)',
+				required: true,
+				displayOptions: {
+					show: {
+						sources: ['inverter'],
+					},
+				},
+			},
+			{
+				displayName: 'Connection Mode',
+				name: 'connectionMode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Via SmartLogger',
+						value: 'smartLogger',
+						description: 'Inverters behind a SmartLogger gateway',
+					},
+					{
+						name: 'Direct to Inverter',
+						value: 'direct',
+						description: 'Inverter LAN/WLAN or SDongle without a SmartLogger',
+					},
+				],
+				default: 'smartLogger',
+				description: 'How the inverters are reached',
+				displayOptions: {
+					show: {
+						sources: ['inverter'],
+					},
+				},
+			},
+			{
+				displayName: 'Emit Active Alarms on First Poll',
+				name: 'emitActiveOnStart',
+				type: 'boolean',
+				default: true,
+				description: 'Whether alarms that are already active when the workflow is activated are emitted as raised. Otherwise only later changes are emitted.',
+			},
+			...connectionProperties({
+				hostDescription: 'IP address or hostname of the SmartLogger device (or of the inverter/SDongle in direct mode)',
+				unitId: { displayName: 'SmartLogger Unit ID', show: { sources: ['smartLogger'] } },
+			}),
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			huaweiModbusTcpApiTest: testModbusCredentials,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const sources = this.getNodeParameter('sources', []) as AlarmSource[];
+		const emitActiveOnStart = this.getNodeParameter('emitActiveOnStart', true) as boolean;
+
+		// Manual executions start from an empty state so the currently active alarms are shown
+		const manual = this.getMode() === 'manual';
+		const staticData = this.getWorkflowStaticData('node');
+		const previousState = manual ? {} : (staticData.alarmState ?? {}) as Record<string, AlarmDeviceState>;
+
+		const config = await getPollConnectionConfig(this, 3);
+		const modbusClient = connectionPool.acquire(config);
+		let readings: AlarmDeviceReading[];
+
+		try {
+			const connected = await modbusClient.connect();
+			if (!connected) {
+				throw new ApplicationError(`Failed to connect to ${connectionKey(config)}`);
+			}
+
+			readings = await HuaweiAlarmTrigger.readAlarmRegisters(this, sources, modbusClient, config.unitId);
+		} finally {
+			await modbusClient.disconnect();
+		}
+
+		const now = new Date();
+		const timestamp = now.toISOString();
+		const nextState: Record<string, AlarmDeviceState> = {};
+		const returnData: INodeExecutionData[] = [];
+
+		for (const reading of readings) {
+			const previous = previousState[reading.key];
+
+			// Unreadable device: keep its last known state until it answers again
+			if (!reading.registers) {
+				if (previous) {
+					nextState[reading.key] = previous;
+				}
+				continue;
+			}
+
+			const since = { ...previous?.since };
+			const changes = diffAlarms(reading.definitions, previous?.registers ?? {}, reading.registers);
+			const emit = previous !== undefined || emitActiveOnStart || manual;
+
+			for (const { event, alarm } of changes) {
+				const key = alarmKey(alarm);
+				const startTime = since[key] ?? timestamp;
+
+				if (event === 'raised') {
+					since[key] = timestamp;
+				} else {
+					delete since[key];
+				}
+
+				if (!emit) {
+					continue;
+				}
+
+				returnData.push({
+					json: {
+						ts: timestamp,
+						event,
+						source: reading.source,
+						unitId: reading.unitId,
+						deviceName: reading.deviceName,
+						alarm: { ...alarm },
+						alarmText: formatAlarmText(alarm),
+						startTime,
+						...(event === 'cleared' && {
+							endTime: timestamp,
+							durationSeconds: Math.round((now.getTime() - new Date(startTime).getTime()) / 1000),
+						}),
+					} as IDataObject,
+				});
+			}
+
+			nextState[reading.key] = { registers: reading.registers, since };
+		}
+
+		if (!manual) {
+			staticData.alarmState = nextState as unknown as IDataObject;
+		}
+
+		return returnData.length > 0 ? [returnData] : null;
+	}
+
+	/**
+	 * Read the alarm registers of all watched devices over one connection
+	 * A device that cannot be read is returned without registers
+	 */
+	private static async readAlarmRegisters(
+		context: IPollFunctions,
+		sources: AlarmSource[],
+		modbusClient: HuaweiModbusClient,
+		smartLoggerUnitId: number
+	): Promise<AlarmDeviceReading[]> {
+		const readings: AlarmDeviceReading[] = [];
+
+		if (sources.includes('inverter')) {
+			const inverterAddresses = context.getNodeParameter('inverterAddresses', '') as string;
+			const connectionMode = context.getNodeParameter('connectionMode', 'smartLogger') as Sun2000ConnectionMode;
+
+			const addresses = parseAddressList(inverterAddresses, connectionMode === 'direct');
+			if (addresses.length === 0) {
+				throw new ApplicationError('No valid inverter addresses specified. Please provide addresses like "12,13,14,15" or "12-15".');
+			}
+
+			const sun2000 = new SUN2000Functions(modbusClient, undefined, connectionMode);
+			const inverters = await sun2000.readMultipleInverters(
+				addresses.map(addr => ({ unitId: addr, deviceAddress: addr, deviceName: `Inverter-${addr}` })),
+				['alarms']
+			);
+
+			for (const inverter of inverters) {
+				readings.push({
+					key: `inverter:${inverter.unitId}`,
+					source: 'inverter',
+					unitId: inverter.unitId,
+					deviceName: inverter.deviceName,
+					definitions: SUN2000_ALARMS,
+					registers: inverter.error ? undefined : HuaweiAlarmTrigger.pickRegisters(inverter, SUN2000_ALARM_REGISTERS),
+				});
+			}
+		}
+
+		if (sources.includes('smartLogger')) {
+			const smartLogger = new SmartLoggerFunctions(modbusClient, smartLoggerUnitId);
+			const alarmData = await smartLogger.readAlarmData();
+
+			readings.push({
+				key: `smartLogger:${smartLoggerUnitId}`,
+				source: 'smartLogger',
+				unitId: smartLoggerUnitId,
+				deviceName: 'SmartLogger',
+				definitions: SMARTLOGGER_ALARMS,
+				registers: HuaweiAlarmTrigger.pickRegisters({ ...alarmData }, SMARTLOGGER_ALARM_REGISTERS),
+			});
+		}
+
+		return readings;
+	}
+
+	/**
+	 * Numeric alarm register values of a read result, or undefined when none were read
+	 */
+	private static pickRegisters(data: Record<string, unknown>, names: string[]): Record<string, number> | undefined {
+		const registers: Record<string, number> = {};
+		for (const name of names) {
+			if (typeof data[name] === 'number') {
+				registers[name] = data[name] as number;
+			}
+		}
+		return Object.keys(registers).length > 0 ? registers : undefined;
+	}
+}
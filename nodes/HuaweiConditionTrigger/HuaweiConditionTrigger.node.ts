@@ -0,0 +1,473 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { ApplicationError, NodeConnectionType } from 'n8n-workflow';
+
+import {
+	CONDITION_OPERATOR_SYMBOLS,
+	ConditionOperator,
+	ConditionRule,
+	ConditionSource,
+	ConditionState,
+	compareValue,
+	describeCondition,
+	evaluateCondition,
+} from '../utils/conditions';
+import { getPollConnectionConfig, testModbusCredentials } from '../utils/connection-config';
+import { connectionPool } from '../utils/connection-pool';
+import { connectionProperties } from '../utils/connection-properties';
+import { HuaweiModbusClient, connectionKey, parseAddressList } from '../utils/modbus-utils';
+import { RegisterDefinition, findRegister, isNumericRegister } from '../utils/register-map';
+import { SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { SMARTLOGGER_REGISTERS } from '../utils/smartlogger-registers';
+import { SUN2000Functions, Sun2000ConnectionMode } from '../utils/sun2000-functions';
+import { SUN2000_DIRECT_TELEMETRY_REGISTERS, SUN2000_REGISTERS, SUN2000_REMAPPED_REGISTERS } from '../utils/sun2000-registers';
+
+/**
+ * Rule as entered in the node parameters
+ */
+interface RuleParameters {
+	name?: string;
+	source: ConditionSource;
+	field: string;
+	operator: ConditionOperator;
+	value: number;
+	hysteresis?: number;
+	minDuration?: number;        // Minutes
+	guardField?: string;
+	guardOperator?: ConditionOperator;
+	guardValue?: number;
+}
+
+/**
+ * Field values of one device read in this poll
+ */
+interface DeviceValues {
+	key: string;                 // Static data key, e.g. 'inverter:12'
+	source: ConditionSource;
+	unitId: number;
+	deviceName: string;
+	values?: Record<string, unknown>; // Omitted when the device could not be read
+}
+
+const OPERATOR_OPTIONS = [
+	{ name: 'Equal (==)', value: 'eq' },
+	{ name: 'Greater Than (>)', value: 'gt' },
+	{ name: 'Greater Than or Equal (>=)', value: 'gte' },
+	{ name: 'Less Than (<)', value: 'lt' },
+	{ name: 'Less Than or Equal (<=)', value: 'lte' },
+	{ name: 'Not Equal (!=)', value: 'ne' },
+];
+
+/**
+ * SUN2000 registers read in each connection mode (the remapped block only exists behind a SmartLogger)
+ */
+const SUN2000_READABLE_REGISTERS: Record<Sun2000ConnectionMode, RegisterDefinition[]> = {
+	smartLogger: [...SUN2000_REMAPPED_REGISTERS, ...SUN2000_REGISTERS],
+	direct: [...SUN2000_DIRECT_TELEMETRY_REGISTERS, ...SUN2000_REGISTERS],
+};
+
+export class HuaweiConditionTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Huawei Solar Condition Trigger',
+		name: 'huaweiConditionTrigger',
+		icon: 'file:huaweiConditionTrigger.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Emit an item when SUN2000 or SmartLogger telemetry meets a threshold rule',
+		defaults: {
+			name: 'Huawei Solar Condition Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'huaweiModbusTcpApi',
+				required: true,
+				testedBy: 'huaweiModbusTcpApiTest',
+				displayOptions: {
+					show: {
+						connectionSource: ['credentials'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'Rules',
+				name: 'rules',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Rule',
+				options: [
+					{
+						name: 'rule',
+						displayName: 'Rule',
+						values: [
+							{
+								displayName: 'Device',
+								name: 'source',
+								type: 'options',
+								options: [
+									{
+										name: 'Inverters',
+										value: 'inverter',
+										description: 'Evaluated for every inverter address',
+									},
+									{
+										name: 'SmartLogger',
+										value: 'smartLogger',
+										description: 'Evaluated on the plant values',
+									},
+								],
+								default: 'inverter',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'internalTemperature',
+								description: 'Numeric descriptive field name as output by the SUN2000 or SmartLogger node (e.g. insulationResistance, activePower, irradiance)',
+							},
+							{
+								displayName: 'Field Operator',
+								name: 'operator',
+								type: 'options',
+								options: OPERATOR_OPTIONS,
+								default: 'gt',
+							},
+							{
+								displayName: 'Field Value',
+								name: 'value',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									numberPrecision: 3,
+								},
+								description: 'Threshold in the unit of the field',
+							},
+							{
+								displayName: 'Guard Field',
+								name: 'guardField',
+								type: 'string',
+								default: '',
+								placeholder: 'irradiance',
+								description: 'Optional SmartLogger field that must also meet the guard condition, e.g. irradiance above 300. Leave empty for no guard.',
+							},
+							{
+								displayName: 'Guard Operator',
+								name: 'guardOperator',
+								type: 'options',
+								options: OPERATOR_OPTIONS,
+								default: 'gt',
+							},
+							{
+								displayName: 'Guard Value',
+								name: 'guardValue',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									numberPrecision: 3,
+								},
+							},
+							{
+								displayName: 'Hysteresis',
+								name: 'hysteresis',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									minValue: 0,
+									numberPrecision: 3,
+								},
+								description: 'How far the value must move back past the threshold before the rule clears (for the less than and greater than operators)',
+							},
+							{
+								displayName: 'Minimum Duration (Minutes)',
+								name: 'minDuration',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									minValue: 0,
+								},
+								description: 'How long the condition must hold before the rule fires',
+							},
+							{
+								displayName: 'Rule Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'Low insulation',
+								description: 'Name reported in the event (defaults to the rule text)',
+							},
+						],
+					},
+				],
+				description: 'Conditions on telemetry values. Each rule fires once when its condition is met and emits a cleared event when it ends.',
+			},
+			{
+				displayName: 'Inverter Addresses',
+				name: 'inverterAddresses',
+				type: 'string',
+				default: '12,13,14,15',
+				placeholder: '12,13,14,15 or 12-15 or 1-2,6,8',
+				description: 'Comma-separated inverter device addresses or ranges (used by inverter rules; unit ID 0 is accepted in direct mode)',
+			},
+			{
+				displayName: 'Connection Mode',
+				name: 'connectionMode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Via SmartLogger',
+						value: 'smartLogger',
+						description: 'Inverters behind a SmartLogger gateway',
+					},
+					{
+						name: 'Direct to Inverter',
+						value: 'direct',
+						description: 'Inverter LAN/WLAN or SDongle without a SmartLogger',
+					},
+				],
+				default: 'smartLogger',
+				description: 'How the inverters are reached',
+			},
+			...connectionProperties({
+				hostDescription: 'IP address or hostname of the SmartLogger device (or of the inverter/SDongle in direct mode)',
+				unitId: { displayName: 'SmartLogger Unit ID' },
+			}),
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			huaweiModbusTcpApiTest: testModbusCredentials,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const ruleParameters = (this.getNodeParameter('rules', {}) as { rule?: RuleParameters[] }).rule ?? [];
+		if (ruleParameters.length === 0) {
+			throw new ApplicationError('No rules configured. Add at least one rule.');
+		}
+
+		// Manual executions start from an empty state and ignore the minimum duration,
+		// so the rules that currently hold are shown
+		const manual = this.getMode() === 'manual';
+		const connectionMode = this.getNodeParameter('connectionMode', 'smartLogger') as Sun2000ConnectionMode;
+		const rules = ruleParameters.map(parameters => HuaweiConditionTrigger.toRule(parameters, manual, connectionMode));
+		const staticData = this.getWorkflowStaticData('node');
+		const previousState = manual ? {} : (staticData.conditionState ?? {}) as Record<string, ConditionState>;
+
+		const config = await getPollConnectionConfig(this, 3);
+		const modbusClient = connectionPool.acquire(config);
+		let inverters: DeviceValues[];
+		let plant: DeviceValues;
+
+		try {
+			const connected = await modbusClient.connect();
+			if (!connected) {
+				throw new ApplicationError(`Failed to connect to ${connectionKey(config)}`);
+			}
+
+			plant = await HuaweiConditionTrigger.readSmartLoggerValues(modbusClient, config.unitId, rules);
+			inverters = await HuaweiConditionTrigger.readInverterValues(this, modbusClient, rules);
+		} finally {
+			await modbusClient.disconnect();
+		}
+
+		const now = new Date();
+		const timestamp = now.toISOString();
+		const nextState: Record<string, ConditionState> = {};
+		const returnData: INodeExecutionData[] = [];
+
+		for (const rule of rules) {
+			const ruleText = describeCondition(rule);
+			const guardValue = rule.guard ? HuaweiConditionTrigger.numericValue(plant.values, rule.guard.field) : undefined;
+			const guardMet = !rule.guard || (guardValue !== undefined && compareValue(guardValue, rule.guard.operator, rule.guard.threshold));
+
+			for (const device of rule.source === 'inverter' ? inverters : [plant]) {
+				const stateKey = `${ruleText}|${device.key}`;
+				const previous = previousState[stateKey] ?? {};
+				const value = HuaweiConditionTrigger.numericValue(device.values, rule.field);
+
+				// An unreadable guard leaves the rule as it is, like an unreadable field
+				const { state, event } = evaluateCondition(
+					rule,
+					rule.guard && guardValue === undefined ? undefined : value,
+					guardMet,
+					previous,
+					now
+				);
+
+				if (state.since) {
+					nextState[stateKey] = state;
+				}
+
+				if (!event) {
+					continue;
+				}
+
+				const since = (event === 'cleared' ? previous.since : state.since) ?? timestamp;
+				returnData.push({
+					json: {
+						ts: timestamp,
+						event,
+						rule: rule.name || ruleText,
+						condition: ruleText,
+						source: device.source,
+						unitId: device.unitId,
+						deviceName: device.deviceName,
+						field: rule.field,
+						value,
+						operator: CONDITION_OPERATOR_SYMBOLS[rule.operator],
+						threshold: rule.threshold,
+						...(rule.hysteresis && { hysteresis: rule.hysteresis }),
+						...(rule.guard && { guard: { field: rule.guard.field, value: guardValue } }),
+						since,
+						...(event === 'cleared' && {
+							triggeredAt: previous.triggeredAt,
+							endTime: timestamp,
+							durationSeconds: Math.round((now.getTime() - new Date(since).getTime()) / 1000),
+						}),
+					} as IDataObject,
+				});
+			}
+		}
+
+		if (!manual) {
+			staticData.conditionState = nextState as unknown as IDataObject;
+		}
+
+		return returnData.length > 0 ? [returnData] : null;
+	}
+
+	/**
+	 * Rule from the node parameters, with the fields checked against the register maps
+	 * Only fields decoding to a number and read in the connection mode can be compared; others would never fire
+	 */
+	private static toRule(parameters: RuleParameters, ignoreDuration: boolean, connectionMode: Sun2000ConnectionMode): ConditionRule {
+		const field = (parameters.field ?? '').trim();
+		const ruleName = parameters.name || field;
+		const sourceName = parameters.source === 'smartLogger' ? 'SmartLogger' : 'inverter';
+		const definition = findRegister(parameters.source === 'smartLogger' ? SMARTLOGGER_REGISTERS : SUN2000_READABLE_REGISTERS[connectionMode], field);
+		if (!definition) {
+			const otherMode: Sun2000ConnectionMode = connectionMode === 'direct' ? 'smartLogger' : 'direct';
+			if (parameters.source !== 'smartLogger' && findRegister(SUN2000_READABLE_REGISTERS[otherMode], field)) {
+				throw new ApplicationError(`The inverter field "${field}" in rule ${ruleName} is not read in ${connectionMode === 'direct' ? 'direct' : 'SmartLogger'} connection mode`);
+			}
+			throw new ApplicationError(`Unknown ${sourceName} field "${field}" in rule ${ruleName}`);
+		}
+		if (!isNumericRegister(definition)) {
+			throw new ApplicationError(`The ${sourceName} field "${field}" in rule ${ruleName} is not numeric and cannot be compared`);
+		}
+
+		const guardField = (parameters.guardField ?? '').trim();
+		if (guardField) {
+			const guardDefinition = findRegister(SMARTLOGGER_REGISTERS, guardField);
+			if (!guardDefinition) {
+				throw new ApplicationError(`Unknown SmartLogger field "${guardField}" in the guard of rule ${ruleName}`);
+			}
+			if (!isNumericRegister(guardDefinition)) {
+				throw new ApplicationError(`The SmartLogger field "${guardField}" in the guard of rule ${ruleName} is not numeric and cannot be compared`);
+			}
+		}
+
+		return {
+			name: parameters.name ?? '',
+			source: parameters.source,
+			field,
+			operator: parameters.operator,
+			threshold: parameters.value,
+			hysteresis: parameters.hysteresis ?? 0,
+			minDurationSeconds: ignoreDuration ? 0 : (parameters.minDuration ?? 0) * 60,
+			...(guardField && {
+				guard: {
+					field: guardField,
+					operator: parameters.guardOperator ?? 'gt',
+					threshold: parameters.guardValue ?? 0,
+				},
+			}),
+		};
+	}
+
+	/**
+	 * Read the SmartLogger categories holding the fields of SmartLogger rules and guards
+	 */
+	private static async readSmartLoggerValues(
+		modbusClient: HuaweiModbusClient,
+		unitId: number,
+		rules: ConditionRule[]
+	): Promise<DeviceValues> {
+		const fields = rules.flatMap(rule => [
+			...(rule.source === 'smartLogger' ? [rule.field] : []),
+			...(rule.guard ? [rule.guard.field] : []),
+		]);
+		const categories = [...new Set(fields.map(field => findRegister(SMARTLOGGER_REGISTERS, field)!.category))];
+
+		const plant: DeviceValues = { key: `smartLogger:${unitId}`, source: 'smartLogger', unitId, deviceName: 'SmartLogger' };
+		if (categories.length === 0) {
+			return plant;
+		}
+
+		const smartLogger = new SmartLoggerFunctions(modbusClient, unitId);
+		const results = await Promise.all(categories.map(category => smartLogger.readCategory(category)));
+		const values = Object.assign({}, ...results);
+
+		return Object.keys(values).length > 0 ? { ...plant, values } : plant;
+	}
+
+	/**
+	 * Read the inverter categories holding the fields of inverter rules
+	 * Remapped/direct telemetry is always read by readInverterData and needs no category
+	 */
+	private static async readInverterValues(
+		context: IPollFunctions,
+		modbusClient: HuaweiModbusClient,
+		rules: ConditionRule[]
+	): Promise<DeviceValues[]> {
+		const fields = rules.filter(rule => rule.source === 'inverter').map(rule => rule.field);
+		if (fields.length === 0) {
+			return [];
+		}
+
+		const inverterAddresses = context.getNodeParameter('inverterAddresses', '') as string;
+		const connectionMode = context.getNodeParameter('connectionMode', 'smartLogger') as Sun2000ConnectionMode;
+		const addresses = parseAddressList(inverterAddresses, connectionMode === 'direct');
+		if (addresses.length === 0) {
+			throw new ApplicationError('No valid inverter addresses specified. Please provide addresses like "12,13,14,15" or "12-15".');
+		}
+
+		const categories = [...new Set(fields
+			.map(field => findRegister(SUN2000_REGISTERS, field)?.category)
+			.filter((category): category is string => category !== undefined))];
+
+		const sun2000 = new SUN2000Functions(modbusClient, undefined, connectionMode);
+		const inverters = await sun2000.readMultipleInverters(
+			addresses.map(addr => ({ unitId: addr, deviceAddress: addr, deviceName: `Inverter-${addr}` })),
+			categories
+		);
+
+		return inverters.map(inverter => ({
+			key: `inverter:${inverter.unitId}`,
+			source: 'inverter' as ConditionSource,
+			unitId: inverter.unitId,
+			deviceName: inverter.deviceName,
+			...(!inverter.error && { values: inverter }),
+		}));
+	}
+
+	private static numericValue(values: Record<string, unknown> | undefined, field: string): number | undefined {
+		const value = values?.[field];
+		return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+	}
+}
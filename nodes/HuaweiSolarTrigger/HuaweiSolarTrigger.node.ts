@@ -0,0 +1,530 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { ApplicationError, NodeConnectionType } from 'n8n-workflow';
+
+import { getPollConnectionConfig, testModbusCredentials } from '../utils/connection-config';
+import { connectionPool } from '../utils/connection-pool';
+import { connectionProperties } from '../utils/connection-properties';
+import { inverterItemToLines, smartLoggerDataToLines } from '../utils/line-protocol';
+import { HuaweiModbusClient, ModbusConnectionConfig, connectionKey, parseAddressList } from '../utils/modbus-utils';
+import { DeviceInfo, SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { SUN2000Functions, Sun2000ConnectionMode } from '../utils/sun2000-functions';
+import { createInverterItem } from '../utils/sun2000-output';
+
+/**
+ * Discovery result kept in the workflow static data between polls
+ */
+interface DiscoveryCache {
+	key: string;                 // Connection, unit ID and scan range the devices were found with
+	discoveredAt: string;        // ISO time of the scan
+	devices: DeviceInfo[];       // Discovered inverters
+}
+
+export class HuaweiSolarTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Huawei Solar Trigger',
+		name: 'huaweiSolarTrigger',
+		icon: 'file:huaweiSolarTrigger.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Poll SmartLogger and SUN2000 telemetry on a schedule',
+		defaults: {
+			name: 'Huawei Solar Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'huaweiModbusTcpApi',
+				required: true,
+				testedBy: 'huaweiModbusTcpApiTest',
+				displayOptions: {
+					show: {
+						connectionSource: ['credentials'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'SmartLogger Data Categories',
+				name: 'smartLoggerCategories',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Alarms',
+						value: 'alarms',
+						description: 'System alarms decoded into named alarms with severity, and the active-alarm count',
+					},
+					{
+						name: 'Environmental Data',
+						value: 'environmental',
+						description: 'Temperature, irradiance, wind speed/direction',
+					},
+					{
+						name: 'Power Data',
+						value: 'power',
+						description: 'Active/reactive power, energy yields, power factor',
+					},
+					{
+						name: 'System Information',
+						value: 'system',
+						description: 'Date/time, location, DST settings',
+					},
+				],
+				default: ['power'],
+				description: 'SmartLogger data read on every poll and emitted as one plant item. Leave empty to only read inverters.',
+			},
+			{
+				displayName: 'Inverter Source',
+				name: 'inverterSource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Only read the SmartLogger',
+					},
+					{
+						name: 'SmartLogger Discovery',
+						value: 'discovery',
+						description: 'Find the inverters behind the SmartLogger and reuse the result between polls',
+					},
+					{
+						name: 'Specify Devices',
+						value: 'manual',
+						description: 'Manually specify inverter device addresses',
+					},
+				],
+				default: 'discovery',
+				description: 'Which inverters are read on every poll',
+			},
+			{
+				displayName: 'Discovery Range',
+				name: 'discoveryRange',
+				type: 'string',
+				default: '1-247',
+				placeholder: '1-15,21-30 or 12,13,14,15',
+				description: 'Unit ID ranges to scan for device discovery (comma-separated ranges or individual IDs)',
+				displayOptions: {
+					show: {
+						inverterSource: ['discovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Discovery Timeout (Ms)',
+				name: 'discoveryTimeout',
+				type: 'number',
+				default: 2000,
+				description: 'Shorter timeout for device discovery to speed up scanning',
+				displayOptions: {
+					show: {
+						inverterSource: ['discovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Parallel Scan Count',
+				name: 'parallelScans',
+				type: 'number',
+				default: 10,
+				description: 'Number of devices to scan simultaneously (higher = faster but more network load)',
+				displayOptions: {
+					show: {
+						inverterSource: ['discovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Rediscover Every (Minutes)',
+				name: 'discoveryCacheMinutes',
+				type: 'number',
+				default: 1440,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'How long discovered inverters are reused before the SmartLogger is scanned again (0 = scan on every poll). A scan also runs when no discovered inverter answers.',
+				displayOptions: {
+					show: {
+						inverterSource: ['discovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Inverter Addresses',
+				name: 'inverterAddresses',
+				type: 'string',
+				default: '12,13,14,15',
+				placeholder: '12,13,14,15 or 12-15 or 1-2,6,8',
+				description: 'Comma-separated inverter device addresses or ranges (unit ID 0 is accepted in direct mode)',
+				required: true,
+				displayOptions: {
+					show: {
+						inverterSource: ['manual'],
+					},
+				},
+			},
+			{
+				displayName: 'Connection Mode',
+				name: 'connectionMode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Via SmartLogger',
+						value: 'smartLogger',
+						description: 'Inverters behind a SmartLogger gateway (basic telemetry from the remapped registers on unit 0)',
+					},
+					{
+						name: 'Direct to Inverter',
+						value: 'direct',
+						description: 'Inverter LAN/WLAN or SDongle without a SmartLogger (all data from the inverter registers)',
+					},
+				],
+				default: 'smartLogger',
+				description: 'How the inverters are reached',
+				displayOptions: {
+					show: {
+						inverterSource: ['manual'],
+					},
+				},
+			},
+			{
+				displayName: 'Inverter Data Categories',
+				name: 'dataCategories',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Alarms & Faults',
+						value: 'alarms',
+						description: 'Alarm registers with decoded error messages',
+					},
+					{
+						name: 'Battery (LUNA2000)',
+						value: 'battery',
+						description: 'State of charge, charge/discharge power and energy, running status, working mode, per-pack SOC and temperature',
+					},
+					{
+						name: 'Device Information',
+						value: 'device',
+						description: 'Model, serial number, firmware version, rated power',
+					},
+					{
+						name: 'Grid Currents',
+						value: 'currents',
+						description: 'AC phase currents and grid frequency',
+					},
+					{
+						name: 'Grid Voltages',
+						value: 'voltages',
+						description: 'AC line voltages (UAB, UBC, UCA) and phase voltages',
+					},
+					{
+						name: 'Power & Energy',
+						value: 'power',
+						description: 'Active/reactive power, efficiency, daily/total energy',
+					},
+					{
+						name: 'Power Meter',
+						value: 'meter',
+						description: 'Grid meter (DTSU666) per-phase voltage, current and power, frequency, import/export energy',
+					},
+					{
+						name: 'PV String Data',
+						value: 'strings',
+						description: 'DC voltages and currents for each PV string',
+					},
+					{
+						name: 'Status & Temperature',
+						value: 'status',
+						description: 'Device status, running state, temperature readings',
+					},
+				],
+				default: ['power', 'voltages', 'status'],
+				description: 'Select which data categories to read from inverters',
+				displayOptions: {
+					hide: {
+						inverterSource: ['none'],
+					},
+				},
+			},
+			{
+				displayName: 'Always Include Alarm Texts',
+				name: 'alwaysIncludeAlarmTexts',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to always include the alarms and alarmTexts fields in output, even when empty (for consistent packet structure)',
+				displayOptions: {
+					hide: {
+						inverterSource: ['none'],
+					},
+				},
+			},
+			{
+				displayName: 'Field Naming Convention',
+				name: 'namingConvention',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Descriptive',
+						value: 'descriptive',
+						description: 'Use descriptive field names (e.g., activePower, phaseAVoltage)',
+					},
+					{
+						name: 'IEC 61850',
+						value: 'iec61850',
+						description: 'Use IEC 61850 standard field names (e.g., P, Ua)',
+					},
+				],
+				default: 'descriptive',
+				description: 'Choose output field naming: Descriptive or IEC 61850 standard',
+			},
+			{
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Nested objects per data category',
+					},
+					{
+						name: 'InfluxDB Line Protocol',
+						value: 'influxLineProtocol',
+						description: 'Telemetry as line protocol in a lineProtocol field; SmartLogger system information and alarms stay JSON',
+					},
+				],
+				default: 'json',
+				description: 'Format of the emitted items',
+			},
+			...connectionProperties({
+				hostDescription: 'IP address or hostname of the SmartLogger device (or of the inverter/SDongle in direct mode)',
+				unitId: { displayName: 'SmartLogger Unit ID' },
+			}),
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			huaweiModbusTcpApiTest: testModbusCredentials,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const smartLoggerCategories = this.getNodeParameter('smartLoggerCategories', []) as string[];
+		const inverterSource = this.getNodeParameter('inverterSource', 'discovery') as string;
+		const dataCategories = this.getNodeParameter('dataCategories', ['power', 'voltages', 'status']) as string[];
+		const alwaysIncludeAlarmTexts = this.getNodeParameter('alwaysIncludeAlarmTexts', false) as boolean;
+		const useIEC = this.getNodeParameter('namingConvention', 'descriptive') === 'iec61850';
+		const lineProtocol = this.getNodeParameter('outputFormat', 'json') === 'influxLineProtocol';
+
+		const config = await getPollConnectionConfig(this, 3);
+		const host = config.host || config.serial?.path;
+		const modbusClient = connectionPool.acquire(config);
+		const returnData: INodeExecutionData[] = [];
+
+		try {
+			const connected = await modbusClient.connect();
+			if (!connected) {
+				throw new ApplicationError(`Failed to connect to ${connectionKey(config)}`);
+			}
+
+			// Plant item with the selected SmartLogger categories
+			if (smartLoggerCategories.length > 0) {
+				const smartLogger = new SmartLoggerFunctions(modbusClient, config.unitId);
+				const plantData: IDataObject = await HuaweiSolarTrigger.readSmartLoggerCategories(smartLogger, smartLoggerCategories, useIEC);
+				const ts = new Date().toISOString();
+
+				if (lineProtocol) {
+					const lines = smartLoggerDataToLines(plantData, { host, unitId: config.unitId, deviceName: 'SmartLogger' }, ts);
+					delete plantData.power;
+					delete plantData.environmental;
+					plantData.lineProtocol = lines.join('\n');
+				}
+
+				returnData.push({
+					json: {
+						ts,
+						unitId: config.unitId,
+						deviceName: 'SmartLogger',
+						...plantData,
+					} as IDataObject,
+				});
+			}
+
+			// One nested item per inverter, as produced by the SUN2000 node
+			if (inverterSource !== 'none') {
+				const inverters = inverterSource === 'discovery'
+					? await HuaweiSolarTrigger.readDiscoveredInverters(this, modbusClient, config, dataCategories, alwaysIncludeAlarmTexts, useIEC)
+					: await HuaweiSolarTrigger.readSpecifiedInverters(this, modbusClient, dataCategories, alwaysIncludeAlarmTexts, useIEC);
+
+				const timestamp = new Date().toISOString();
+				for (const inverter of inverters) {
+					const item = createInverterItem(inverter, timestamp);
+
+					if (lineProtocol && !item.error) {
+						returnData.push({
+							json: {
+								ts: item.ts,
+								unitId: item.unitId,
+								deviceName: item.deviceName,
+								lineProtocol: inverterItemToLines(item, host).join('\n'),
+							},
+						});
+						continue;
+					}
+
+					returnData.push({ json: item });
+				}
+			}
+		} finally {
+			await modbusClient.disconnect();
+		}
+
+		return returnData.length > 0 ? [returnData] : null;
+	}
+
+	/**
+	 * Read the selected SmartLogger categories, keyed by category
+	 */
+	private static async readSmartLoggerCategories(
+		smartLogger: SmartLoggerFunctions,
+		categories: string[],
+		useIEC: boolean
+	): Promise<IDataObject> {
+		const readers: Record<string, () => Promise<unknown>> = {
+			system: () => smartLogger.readSystemData(useIEC),
+			power: () => smartLogger.readPowerData(useIEC),
+			environmental: () => smartLogger.readEnvironmentalData(useIEC),
+			alarms: () => smartLogger.readAlarmData(useIEC),
+		};
+
+		const selected = Object.keys(readers).filter(category => categories.includes(category));
+		const results = await Promise.all(selected.map(category => readers[category]()));
+
+		return Object.fromEntries(selected.map((category, i) => [category, results[i]])) as IDataObject;
+	}
+
+	/**
+	 * Read the inverters found by SmartLogger discovery
+	 * The discovery result is cached in the workflow static data and refreshed when it expires,
+	 * when the connection or scan range changes, or when none of the cached inverters answers.
+	 * Scans that find no inverter are not cached.
+	 */
+	private static async readDiscoveredInverters(
+		context: IPollFunctions,
+		modbusClient: HuaweiModbusClient,
+		config: ModbusConnectionConfig,
+		dataCategories: string[],
+		alwaysIncludeAlarmTexts: boolean,
+		useIEC: boolean
+	): Promise<any[]> {
+		const discoveryRange = context.getNodeParameter('discoveryRange', '1-247') as string;
+		const cacheMinutes = context.getNodeParameter('discoveryCacheMinutes', 1440) as number;
+		const staticData = context.getWorkflowStaticData('node');
+		const cacheKey = `${connectionKey(config)}/${config.unitId}/${discoveryRange}`;
+
+		const cache = staticData.discovery as DiscoveryCache | undefined;
+		const cacheValid = cache !== undefined
+			&& cache.key === cacheKey
+			&& Date.now() - new Date(cache.discoveredAt).getTime() < cacheMinutes * 60 * 1000;
+
+		const sun2000 = new SUN2000Functions(modbusClient);
+		let devices = cacheValid ? cache.devices : await HuaweiSolarTrigger.discoverInverters(context, modbusClient, config.unitId, discoveryRange);
+		let inverters = await HuaweiSolarTrigger.readInverters(sun2000, devices, dataCategories, alwaysIncludeAlarmTexts, useIEC);
+
+		// Cached inverters stopped answering (e.g. re-addressed) or none were found: scan again once
+		if (cacheValid && inverters.every(inverter => inverter.error)) {
+			devices = await HuaweiSolarTrigger.discoverInverters(context, modbusClient, config.unitId, discoveryRange);
+			inverters = await HuaweiSolarTrigger.readInverters(sun2000, devices, dataCategories, alwaysIncludeAlarmTexts, useIEC);
+		}
+
+		// An empty result (e.g. SmartLogger still booting) is not cached, so the next poll scans again
+		if (devices.length === 0) {
+			delete staticData.discovery;
+		} else if (!cacheValid || devices !== cache.devices) {
+			staticData.discovery = {
+				key: cacheKey,
+				discoveredAt: new Date().toISOString(),
+				devices,
+			} as unknown as IDataObject;
+		}
+
+		return inverters;
+	}
+
+	/**
+	 * Scan the SmartLogger for SUN2000 inverters (see SmartLoggerFunctions.isInverterDevice)
+	 */
+	private static async discoverInverters(
+		context: IPollFunctions,
+		modbusClient: HuaweiModbusClient,
+		smartLoggerUnitId: number,
+		discoveryRange: string
+	): Promise<DeviceInfo[]> {
+		const discoveryTimeout = context.getNodeParameter('discoveryTimeout', 2000) as number;
+		const parallelScans = context.getNodeParameter('parallelScans', 10) as number;
+
+		const unitIds = parseAddressList(discoveryRange);
+		if (unitIds.length === 0) {
+			throw new ApplicationError('No valid discovery range specified. Please provide unit IDs like "1-247" or "12,13,14".');
+		}
+
+		// Shorter timeout and fewer retries for discovery, on the same connection
+		const discoveryClient = modbusClient.withConfig({ timeout: discoveryTimeout, retries: 1 });
+		const discoveryLogger = new SmartLoggerFunctions(discoveryClient, smartLoggerUnitId);
+		const devices = await discoveryLogger.discoverAllDevicesParallel(unitIds, parallelScans);
+
+		return devices.filter(device => SmartLoggerFunctions.isInverterDevice(device.deviceName));
+	}
+
+	/**
+	 * Read manually specified inverter addresses
+	 */
+	private static async readSpecifiedInverters(
+		context: IPollFunctions,
+		modbusClient: HuaweiModbusClient,
+		dataCategories: string[],
+		alwaysIncludeAlarmTexts: boolean,
+		useIEC: boolean
+	): Promise<any[]> {
+		const inverterAddresses = context.getNodeParameter('inverterAddresses', '') as string;
+		const connectionMode = context.getNodeParameter('connectionMode', 'smartLogger') as Sun2000ConnectionMode;
+
+		const addresses = parseAddressList(inverterAddresses, connectionMode === 'direct');
+		if (addresses.length === 0) {
+			throw new ApplicationError('No valid inverter addresses specified. Please provide addresses like "12,13,14,15" or "12-15".');
+		}
+
+		const sun2000 = new SUN2000Functions(modbusClient, undefined, connectionMode);
+		const devices = addresses.map(addr => ({ unitId: addr, deviceAddress: addr, deviceName: `Inverter-${addr}` }));
+
+		return HuaweiSolarTrigger.readInverters(sun2000, devices, dataCategories, alwaysIncludeAlarmTexts, useIEC);
+	}
+
+	private static async readInverters(
+		sun2000: SUN2000Functions,
+		devices: DeviceInfo[],
+		dataCategories: string[],
+		alwaysIncludeAlarmTexts: boolean,
+		useIEC: boolean
+	): Promise<any[]> {
+		return sun2000.readMultipleInverters(
+			devices.map(device => ({ ...device, deviceAddress: device.deviceAddress ?? device.unitId })),
+			dataCategories,
+			alwaysIncludeAlarmTexts,
+			useIEC
+		);
+	}
+}
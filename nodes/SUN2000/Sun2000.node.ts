@@ -7,8 +7,24 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError, ApplicationError } from 'n8n-workflow';
 
-import { HuaweiModbusClient, ModbusConnectionConfig } from '../utils/modbus-utils';
-import { SUN2000Functions } from '../utils/sun2000-functions';
+import { getConnectionConfig, testModbusCredentials } from '../utils/connection-config';
+import { connectionPool } from '../utils/connection-pool';
+import { connectionProperties } from '../utils/connection-properties';
+import { HomeAssistantOptions, MqttMessage, inverterDeviceId, inverterMessages, smartLoggerDeviceId, smartLoggerMessages } from '../utils/home-assistant';
+import { inverterItemToLines } from '../utils/line-protocol';
+import { OPENMETRICS_CONTENT_TYPE, OpenMetricsBuilder } from '../utils/openmetrics';
+import { ModbusConnectionConfig, ModbusTransport, RawDataType, SerialPortConfig, WordOrder, connectionKey, describeModbusError, parseAddressList } from '../utils/modbus-utils';
+import {
+	BatteryControlOptions,
+	BatteryTouPeriod,
+	SUN2000Functions,
+	Sun2000ConnectionMode,
+	Sun2000ControlAction,
+	encodeTouSchedule,
+} from '../utils/sun2000-functions';
+import { SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { createInverterItem } from '../utils/sun2000-output';
+import { DEFAULT_MIN_WRITE_INTERVAL, WriteGuard, WriteGuardOptions } from '../utils/write-safety';
 
 interface DeviceDiscoveryInput {
 	unitId: number;
@@ -23,112 +39,121 @@ interface DeviceNameMapping {
 	customName: string;
 }
 
-export class Sun2000 implements INodeType {
-	// Helper functions for data classification and splitting
-	private static getTelemetryFields(): string[] {
-		return [
-			// Descriptive naming
-			'activePower', 'reactivePower', 'inputPower', 'powerFactor', 'efficiency',
-			'peakPowerToday', 'dailyEnergyYield', 'totalEnergyYield',
-			'gridVoltageUAB', 'gridVoltageUBC', 'gridVoltageUCA',
-			'phaseAVoltage', 'phaseBVoltage', 'phaseCVoltage',
-			'phaseACurrent', 'phaseBCurrent', 'phaseCCurrent', 'gridFrequency',
-			'internalTemperature', 'cabinetTemperature', 'dcCurrent',
-			'numberOfStrings', 'ratedPower', 'insulationResistance', 'pvStrings',
-			// IEC 61850 naming
-			'P', 'Q', 'dcP', 'PF', 'eff', 'Pmax', 'EPId', 'EPI',
-			'Uab', 'Ubc', 'Uca', 'Ua', 'Ub', 'Uc',
-			'Ia', 'Ib', 'Ic', 'Fr', 'TempInt', 'TempCab', 'dcI', 'pv'
-		];
-	}
-
-	private static getStatusFields(): string[] {
-		return [
-			'status', 'deviceStatus', 'deviceStatusText', 'runningStatus',
-			'majorFault', 'minorFault', 'warning', 'alarm1', 'alarm2', 'alarm3',
-			'faultCode', 'alarmTexts'
-		];
-	}
-
-	private static getIdentificationFields(): string[] {
-		return ['unitId', 'deviceName', 'serialNumber', 'model'];
-	}
-
-	private static createNestedInverterData(inverterData: any, timestamp: string): any {
-		const telemetryFields = this.getTelemetryFields();
-		const statusFields = this.getStatusFields();
-		const identificationFields = this.getIdentificationFields();
-
-		// Root level data: timestamp + device identification
-		const rootData = {
-			ts: timestamp,
-			...Object.fromEntries(
-				identificationFields
-					.filter(field => inverterData[field] !== undefined)
-					.map(field => [field, inverterData[field]])
-			)
-		};
-
-		// Nested telemetry object
-		const telemetryData = Object.fromEntries(
-			telemetryFields
-				.filter(field => inverterData[field] !== undefined)
-				.map(field => [field, inverterData[field]])
-		);
-
-		// Nested status object
-		const statusData = Object.fromEntries(
-			statusFields
-				.filter(field => inverterData[field] !== undefined)
-				.map(field => [field, inverterData[field]])
-		);
-
-		// Build final nested structure
-		const result: any = { ...rootData };
-		
-		// Always include telemetry and status objects (even if empty) for consistency
-		if (Object.keys(telemetryData).length > 0) {
-			result.telemetry = telemetryData;
-		}
-		
-		if (Object.keys(statusData).length > 0) {
-			result.status = statusData;
-		}
-
-		return result;
-	}
-
+interface InverterOutputOptions {
+	format: string;              // json, influxLineProtocol or openMetrics
+	host?: string;               // Line protocol host tag
+	site?: string;               // OpenMetrics site label
+	useIEC?: boolean;            // Field naming of the items (OpenMetrics field lookup)
+}
 
+export class Sun2000 implements INodeType {
 	private static processInverterDataToItems(
 		inverters: any[], 
 		timestamp: string, 
 		returnData: INodeExecutionData[], 
-		itemIndex: number
+		itemIndex: number,
+		output: InverterOutputOptions = { format: 'json' }
 	): void {
-		for (const inverter of inverters) {
-			if (inverter.error) {
-				// For failed inverters, create a single error item
+		const items = inverters.map(inverter => createInverterItem(inverter, timestamp));
+
+		// OpenMetrics: one document for all inverters of the input item
+		if (output.format === 'openMetrics') {
+			const metrics = new OpenMetricsBuilder(output.useIEC);
+			for (const item of items) {
+				metrics.addInverterItem(item, output.site);
+			}
+			returnData.push({
+				json: {
+					ts: timestamp,
+					openMetrics: metrics.render(),
+					contentType: OPENMETRICS_CONTENT_TYPE,
+				},
+				pairedItem: itemIndex,
+			});
+			return;
+		}
+
+		for (const item of items) {
+			// Line protocol replaces the nested objects; error items stay as they are
+			if (output.format === 'influxLineProtocol' && !item.error) {
 				returnData.push({
 					json: {
-						ts: timestamp,
-						unitId: inverter.unitId,
-						deviceName: inverter.deviceName,
-						error: inverter.error
+						ts: item.ts,
+						unitId: item.unitId,
+						deviceName: item.deviceName,
+						lineProtocol: inverterItemToLines(item, output.host).join('\n'),
 					},
 					pairedItem: itemIndex,
 				});
-			} else {
-				// Create single item with nested telemetry and status objects
-				const nestedItem = Sun2000.createNestedInverterData(inverter, timestamp);
-				returnData.push({
-					json: nestedItem,
-					pairedItem: itemIndex,
-				});
+				continue;
 			}
+
+			returnData.push({
+				json: item,
+				pairedItem: itemIndex,
+			});
 		}
 	}
 
 
+	/**
+	 * Home Assistant discovery configs and state messages: SmartLogger first, then one
+	 * device per inverter (linked to the SmartLogger); failed inverters stay error items
+	 */
+	private static async processHomeAssistantMessages(
+		context: IExecuteFunctions,
+		inverters: any[],
+		smartLogger: SmartLoggerFunctions | undefined,
+		smartLoggerUnitId: number,
+		host: string,
+		returnData: INodeExecutionData[],
+		itemIndex: number,
+		useIEC: boolean
+	): Promise<void> {
+		const options: HomeAssistantOptions = {
+			discoveryPrefix: context.getNodeParameter('discoveryPrefix', itemIndex, 'homeassistant') as string,
+			stateTopicPrefix: context.getNodeParameter('stateTopicPrefix', itemIndex, 'huawei-solar') as string,
+			useIEC,
+		};
+		const timestamp = new Date().toISOString();
+		const pushMessages = (messages: MqttMessage[]) => {
+			for (const message of messages) {
+				returnData.push({ json: { ...message }, pairedItem: itemIndex });
+			}
+		};
+		let viaDevice: string | undefined;
+
+		if (smartLogger) {
+			const [power, environmental] = await Promise.all([
+				smartLogger.readPowerData(useIEC),
+				smartLogger.readEnvironmentalData(useIEC),
+			]);
+			viaDevice = smartLoggerDeviceId(host, smartLoggerUnitId);
+			pushMessages(smartLoggerMessages(
+				{ ts: timestamp, unitId: smartLoggerUnitId, deviceName: 'SmartLogger', power, environmental },
+				{ id: viaDevice, name: 'SmartLogger', model: 'SmartLogger' },
+				options,
+			));
+		}
+
+		for (const inverter of inverters) {
+			const item = createInverterItem(inverter, timestamp);
+			if (item.error) {
+				returnData.push({ json: item, pairedItem: itemIndex });
+				continue;
+			}
+
+			pushMessages(inverterMessages(item, {
+				id: inverterDeviceId(inverter.serialNumber, host, inverter.unitId),
+				name: inverter.deviceName,
+				model: inverter.model,
+				serialNumber: inverter.serialNumber,
+				firmwareVersion: inverter.firmwareVersion,
+				viaDevice,
+			}, options));
+		}
+	}
+
 	description: INodeTypeDescription = {
 		displayName: 'Huawei SUN2000 Inverter',
 		name: 'sun2000',
@@ -142,6 +167,19 @@ export class Sun2000 implements INodeType {
 		},
 		inputs: [NodeConnectionType.Main],
 		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'huaweiModbusTcpApi',
+				required: true,
+				testedBy: 'huaweiModbusTcpApiTest',
+				displayOptions: {
+					show: {
+						operation: ['specifyDevices', 'readRawRegisters', 'control'],
+						connectionSource: ['credentials'],
+					},
+				},
+			},
+		],
 		properties: [
 			{
 				displayName: 'Operation',
@@ -149,12 +187,30 @@ export class Sun2000 implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Control Inverters',
+						value: 'control',
+						description: 'Set power limits, reactive power or power factor, power inverters on/off, or dispatch LUNA2000 batteries',
+						action: 'Control inverters',
+					},
+					{
+						name: 'Home Assistant MQTT Discovery',
+						value: 'homeAssistantDiscovery',
+						description: 'Generate Home Assistant MQTT discovery configs and state messages for inverters found by SmartLogger discovery',
+						action: 'Generate home assistant MQTT discovery messages',
+					},
 					{
 						name: 'Read From Discovery',
 						value: 'readFromDiscovery',
 						description: 'Read data from inverters found by SmartLogger discovery',
 						action: 'Read data from discovered inverters',
 					},
+					{
+						name: 'Read Raw Registers',
+						value: 'readRawRegisters',
+						description: 'Read and decode arbitrary holding registers from an inverter',
+						action: 'Read raw registers',
+					},
 					{
 						name: 'Specify Devices',
 						value: 'specifyDevices',
@@ -164,6 +220,42 @@ export class Sun2000 implements INodeType {
 				],
 				default: 'readFromDiscovery',
 			},
+			{
+				displayName: 'Discovery Prefix',
+				name: 'discoveryPrefix',
+				type: 'string',
+				default: 'homeassistant',
+				description: 'MQTT discovery prefix configured in Home Assistant',
+				displayOptions: {
+					show: {
+						operation: ['homeAssistantDiscovery'],
+					},
+				},
+			},
+			{
+				displayName: 'State Topic Prefix',
+				name: 'stateTopicPrefix',
+				type: 'string',
+				default: 'huawei-solar',
+				description: 'State messages are published to this prefix followed by the device ID and /state',
+				displayOptions: {
+					show: {
+						operation: ['homeAssistantDiscovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Include SmartLogger',
+				name: 'includeSmartLogger',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to add the SmartLogger with its power and environmental sensors as a device',
+				displayOptions: {
+					show: {
+						operation: ['homeAssistantDiscovery'],
+					},
+				},
+			},
 			{
 				displayName: 'Filter Inverters Only',
 				name: 'filterInverters',
@@ -172,7 +264,7 @@ export class Sun2000 implements INodeType {
 				description: 'Whether to only read data from devices that contain "SUN2000" in their name',
 				displayOptions: {
 					show: {
-						operation: ['readFromDiscovery'],
+						operation: ['readFromDiscovery', 'homeAssistantDiscovery'],
 					},
 				},
 			},
@@ -186,6 +278,11 @@ export class Sun2000 implements INodeType {
 						value: 'alarms',
 						description: 'Alarm registers with decoded error messages',
 					},
+					{
+						name: 'Battery (LUNA2000)',
+						value: 'battery',
+						description: 'State of charge, charge/discharge power and energy, running status, working mode, per-pack SOC and temperature',
+					},
 					{
 						name: 'Device Information',
 						value: 'device',
@@ -206,6 +303,11 @@ export class Sun2000 implements INodeType {
 						value: 'power',
 						description: 'Active/reactive power, efficiency, daily/total energy',
 					},
+					{
+						name: 'Power Meter',
+						value: 'meter',
+						description: 'Grid meter (DTSU666) per-phase voltage, current and power, frequency, import/export energy',
+					},
 					{
 						name: 'PV String Data',
 						value: 'strings',
@@ -219,13 +321,23 @@ export class Sun2000 implements INodeType {
 				],
 				default: ['power', 'voltages', 'status'],
 				description: 'Select which data categories to read from inverters',
+				displayOptions: {
+					hide: {
+						operation: ['readRawRegisters', 'control'],
+					},
+				},
 			},
 			{
 				displayName: 'Always Include Alarm Texts',
 				name: 'alwaysIncludeAlarmTexts',
 				type: 'boolean',
 				default: false,
-				description: 'Whether to always include alarmTexts field in output, even when empty (for consistent packet structure)',
+				description: 'Whether to always include the alarms and alarmTexts fields in output, even when empty (for consistent packet structure)',
+				displayOptions: {
+					hide: {
+						operation: ['readRawRegisters', 'control'],
+					},
+				},
 			},
 			{
 				displayName: 'Field Naming Convention',
@@ -246,31 +358,206 @@ export class Sun2000 implements INodeType {
 				],
 				default: 'descriptive',
 				description: 'Choose output field naming: Descriptive or IEC 61850 standard',
+				displayOptions: {
+					hide: {
+						operation: ['readRawRegisters', 'control'],
+					},
+				},
 			},
 			{
-				displayName: 'Host',
-				name: 'host',
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Nested telemetry/status objects',
+					},
+					{
+						name: 'InfluxDB Line Protocol',
+						value: 'influxLineProtocol',
+						description: 'One line per category, PV string and battery pack in a lineProtocol field',
+					},
+					{
+						name: 'OpenMetrics (Prometheus)',
+						value: 'openMetrics',
+						description: 'One OpenMetrics document for all inverters in an openMetrics field, e.g. for a Respond to Webhook node',
+					},
+				],
+				default: 'json',
+				description: 'Format of the inverter items',
+				displayOptions: {
+					hide: {
+						operation: ['readRawRegisters', 'control', 'homeAssistantDiscovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Site',
+				name: 'site',
 				type: 'string',
-				default: '192.168.1.10',
-				placeholder: '192.168.1.10',
-				description: 'IP address or hostname of the SmartLogger device',
-				required: true,
+				default: '',
+				placeholder: 'e.g. plant-north',
+				description: 'Value of the site label on every metric (left out when empty)',
+				displayOptions: {
+					show: {
+						outputFormat: ['openMetrics'],
+					},
+					hide: {
+						operation: ['readRawRegisters', 'control', 'homeAssistantDiscovery'],
+					},
+				},
+			},
+			{
+				displayName: 'Connection Mode',
+				name: 'connectionMode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Via SmartLogger',
+						value: 'smartLogger',
+						description: 'Inverters behind a SmartLogger gateway (basic telemetry from the remapped registers on unit 0)',
+					},
+					{
+						name: 'Direct to Inverter',
+						value: 'direct',
+						description: 'Inverter LAN/WLAN or SDongle without a SmartLogger (all data from the inverter registers)',
+					},
+				],
+				default: 'smartLogger',
+				description: 'How the inverters are reached. In direct mode the inverter addresses are the unit IDs of the inverters (e.g. 1 for an SDongle, 0 for the inverter WLAN).',
 				displayOptions: {
 					show: {
 						operation: ['specifyDevices'],
 					},
 				},
 			},
+			...connectionProperties({
+				show: { operation: ['specifyDevices', 'readRawRegisters', 'control'] },
+				hostDescription: 'IP address or hostname of the SmartLogger device (or of the inverter/SDongle in direct mode)',
+			}),
 			{
-				displayName: 'Port',
-				name: 'port',
+				displayName: 'Unit ID',
+				name: 'rawUnitId',
 				type: 'number',
-				default: 502,
-				description: 'Modbus TCP port (default: 502)',
-				required: true,
+				default: 12,
+				description: 'Inverter device address to read from (0 for remapped registers on the SmartLogger)',
 				displayOptions: {
 					show: {
-						operation: ['specifyDevices'],
+						operation: ['readRawRegisters'],
+					},
+				},
+			},
+			{
+				displayName: 'Register Address',
+				name: 'rawAddress',
+				type: 'number',
+				default: 32000,
+				description: 'First holding register to read',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
+			},
+			{
+				displayName: 'Register Count',
+				name: 'rawCount',
+				type: 'number',
+				default: 1,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 125,
+				},
+				description: 'Number of registers to read (max 125)',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
+			},
+			{
+				displayName: 'Data Type',
+				name: 'rawDataType',
+				type: 'options',
+				options: [
+					{
+						name: 'Bitfield',
+						value: 'BITFIELD',
+						description: 'List of set bit positions',
+					},
+					{
+						name: 'Signed 16-Bit (I16)',
+						value: 'I16',
+					},
+					{
+						name: 'Signed 32-Bit (I32)',
+						value: 'I32',
+					},
+					{
+						name: 'String',
+						value: 'STR',
+						description: 'ASCII string, two characters per register',
+					},
+					{
+						name: 'Unsigned 16-Bit (U16)',
+						value: 'U16',
+					},
+					{
+						name: 'Unsigned 32-Bit (U32)',
+						value: 'U32',
+					},
+					{
+						name: 'Unsigned 64-Bit (U64)',
+						value: 'U64',
+					},
+				],
+				default: 'U16',
+				description: 'How to decode the register values',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
+			},
+			{
+				displayName: 'Gain',
+				name: 'rawGain',
+				type: 'number',
+				default: 1,
+				description: 'Divisor applied to the decoded value (e.g. 10, 100, 1000)',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+						rawDataType: ['U16', 'I16', 'U32', 'I32', 'U64'],
+					},
+				},
+			},
+			{
+				displayName: 'Word Order',
+				name: 'rawWordOrder',
+				type: 'options',
+				options: [
+					{
+						name: 'High Word First (Huawei)',
+						value: 'highFirst',
+						description: 'First register holds the most significant word',
+					},
+					{
+						name: 'Low Word First',
+						value: 'lowFirst',
+						description: 'First register holds the least significant word',
+					},
+				],
+				default: 'highFirst',
+				description: 'Word order of multi-register values',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+						rawDataType: ['U32', 'I32', 'U64'],
 					},
 				},
 			},
@@ -280,35 +567,304 @@ export class Sun2000 implements INodeType {
 				type: 'string',
 				default: '12,13,14,15',
 				placeholder: '12,13,14,15 or 12-15 or 1-2,6,8',
-				description: 'Comma-separated inverter device addresses or ranges',
+				description: 'Comma-separated inverter device addresses or ranges (unit ID 0 is accepted in direct mode)',
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['specifyDevices'],
+						operation: ['specifyDevices', 'control'],
+					},
+				},
+			},
+			{
+				displayName: 'Control Action',
+				name: 'controlAction',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Force Battery Charge',
+						value: 'batteryForcedCharge',
+						description: 'Charge the battery at a fixed power for a duration',
+					},
+					{
+						name: 'Force Battery Discharge',
+						value: 'batteryForcedDischarge',
+						description: 'Discharge the battery at a fixed power for a duration',
+					},
+					{
+						name: 'Power On',
+						value: 'powerOn',
+						description: 'Send the power-on command',
+					},
+					{
+						name: 'Set Active Power Limit (%)',
+						value: 'activePowerPercent',
+						description: 'Derate active power to a percentage of rated power',
+					},
+					{
+						name: 'Set Active Power Limit (kW)',
+						value: 'activePowerFixed',
+						description: 'Derate active power to a fixed value',
+					},
+					{
+						name: 'Set Battery Grid Charging',
+						value: 'batteryGridCharging',
+						description: 'Allow or block charging the battery from the grid',
+					},
+					{
+						name: 'Set Battery Max Charge Power',
+						value: 'batteryMaxChargePower',
+						description: 'Limit the battery charge power',
+					},
+					{
+						name: 'Set Battery Max Discharge Power',
+						value: 'batteryMaxDischargePower',
+						description: 'Limit the battery discharge power',
+					},
+					{
+						name: 'Set Battery TOU Schedule',
+						value: 'batteryTouSchedule',
+						description: 'Write the time-of-use charge/discharge periods',
+					},
+					{
+						name: 'Set Battery Working Mode',
+						value: 'batteryWorkingMode',
+						description: 'Select how the battery is dispatched',
+					},
+					{
+						name: 'Set Power Factor',
+						value: 'powerFactor',
+						description: 'Set the reactive power compensation power factor',
+					},
+					{
+						name: 'Set Reactive Power (Q/S)',
+						value: 'reactivePowerRatio',
+						description: 'Set reactive power as a ratio of apparent power',
+					},
+					{
+						name: 'Shut Down',
+						value: 'shutdown',
+						description: 'Send the shutdown command',
+					},
+					{
+						name: 'Stop Forced Battery Charge/Discharge',
+						value: 'batteryStopForced',
+						description: 'End a forced charge or discharge',
+					},
+				],
+				default: 'activePowerPercent',
+				displayOptions: {
+					show: {
+						operation: ['control'],
 					},
 				},
 			},
 			{
-				displayName: 'Connection Timeout (Ms)',
-				name: 'timeout',
+				displayName: 'Active Power Limit (%)',
+				name: 'activePowerPercent',
 				type: 'number',
-				default: 5000,
-				description: 'Connection timeout in milliseconds',
+				default: 100,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 100,
+					numberPrecision: 1,
+				},
+				description: 'Active power limit as a percentage of rated power',
 				displayOptions: {
 					show: {
-						operation: ['specifyDevices'],
+						operation: ['control'],
+						controlAction: ['activePowerPercent'],
 					},
 				},
 			},
 			{
-				displayName: 'Retry Attempts',
-				name: 'retries',
+				displayName: 'Active Power Limit (kW)',
+				name: 'activePowerKw',
 				type: 'number',
-				default: 3,
-				description: 'Number of retry attempts on connection failure',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 3,
+				},
+				description: 'Fixed active power limit in kW',
 				displayOptions: {
 					show: {
-						operation: ['specifyDevices'],
+						operation: ['control'],
+						controlAction: ['activePowerFixed'],
+					},
+				},
+			},
+			{
+				displayName: 'Power Factor',
+				name: 'powerFactor',
+				type: 'number',
+				default: 1,
+				typeOptions: {
+					minValue: -1,
+					maxValue: 1,
+					numberPrecision: 3,
+				},
+				description: 'Power factor setpoint (negative = underexcited)',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['powerFactor'],
+					},
+				},
+			},
+			{
+				displayName: 'Reactive Power Ratio (Q/S)',
+				name: 'reactivePowerRatio',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: -1,
+					maxValue: 1,
+					numberPrecision: 3,
+				},
+				description: 'Reactive power as a ratio of apparent power',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['reactivePowerRatio'],
+					},
+				},
+			},
+			{
+				displayName: 'Battery Working Mode',
+				name: 'batteryWorkingMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Fully Fed to Grid',
+						value: 4,
+					},
+					{
+						name: 'Maximise Self-Consumption',
+						value: 2,
+					},
+					{
+						name: 'Time of Use',
+						value: 5,
+						description: 'Charge and discharge by the TOU schedule',
+					},
+				],
+				default: 2,
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['batteryWorkingMode'],
+					},
+				},
+			},
+			{
+				displayName: 'Battery Power (kW)',
+				name: 'batteryPowerKw',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 3,
+				},
+				description: 'Charge or discharge power in kW',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['batteryMaxChargePower', 'batteryMaxDischargePower', 'batteryForcedCharge', 'batteryForcedDischarge'],
+					},
+				},
+			},
+			{
+				displayName: 'Duration (Min)',
+				name: 'batteryDuration',
+				type: 'number',
+				default: 60,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 1440,
+				},
+				description: 'How long to force charge or discharge, in minutes',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['batteryForcedCharge', 'batteryForcedDischarge'],
+					},
+				},
+			},
+			{
+				displayName: 'Grid Charging',
+				name: 'batteryGridCharging',
+				type: 'boolean',
+				default: false,
+				description: 'Whether the battery may charge from the grid',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['batteryGridCharging'],
+					},
+				},
+			},
+			{
+				displayName: 'TOU Schedule',
+				name: 'touSchedule',
+				type: 'json',
+				default: '[\n  { "start": "00:00", "end": "06:00", "mode": "charge" },\n  { "start": "17:00", "end": "21:00", "mode": "discharge", "days": ["mon", "tue", "wed", "thu", "fri"] }\n]',
+				description: 'Up to 14 periods with start/end (HH:MM), mode (charge or discharge) and optional days (sun-sat, default every day). Takes effect in the Time of Use working mode.',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+						controlAction: ['batteryTouSchedule'],
+					},
+				},
+			},
+			{
+				displayName: 'Verify by Read-Back',
+				name: 'verifyWrite',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to read the register (or device status for power-on/shutdown) back after writing to confirm the inverter accepted it',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+					},
+				},
+			},
+			{
+				displayName: 'Arm Writes',
+				name: 'armWrites',
+				type: 'boolean',
+				default: false,
+				description: 'Whether writes may reach the device. Unarmed writes are blocked and only reported in the audit record.',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+					},
+				},
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to only report what would be written (with the current value) without writing',
+				displayOptions: {
+					show: {
+						operation: ['control'],
+					},
+				},
+			},
+			{
+				displayName: 'Minimum Write Interval (S)',
+				name: 'minWriteInterval',
+				type: 'number',
+				default: 10,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Minimum time between two successful writes to the same register. Faster writes are rejected, except stop and shutdown commands.',
+				displayOptions: {
+					show: {
+						operation: ['control'],
 					},
 				},
 			},
@@ -366,6 +922,12 @@ export class Sun2000 implements INodeType {
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			huaweiModbusTcpApiTest: testModbusCredentials,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
@@ -378,19 +940,27 @@ export class Sun2000 implements INodeType {
 				const alwaysIncludeAlarmTexts = this.getNodeParameter('alwaysIncludeAlarmTexts', itemIndex, false) as boolean;
 				const namingConvention = this.getNodeParameter('namingConvention', itemIndex, 'descriptive') as string;
 				const useIEC = namingConvention === 'iec61850';
+				const output: InverterOutputOptions = {
+					format: this.getNodeParameter('outputFormat', itemIndex, 'json') as string,
+					site: this.getNodeParameter('site', itemIndex, '') as string,
+					useIEC,
+				};
 
-				if (operation === 'readFromDiscovery') {
+				if (operation === 'readFromDiscovery' || operation === 'homeAssistantDiscovery') {
 					// Extract connection info and devices from input data
 					const inputData = items[itemIndex].json as IDataObject;
 					
 					// Look for connection info in metadata
 					const metadata = inputData._metadata as IDataObject;
-					if (!metadata || !metadata.host || !metadata.port) {
+					const serial = metadata?.serial as SerialPortConfig | undefined;
+					if (!metadata || (serial ? !serial.path : !metadata.host || !metadata.port)) {
 						throw new ApplicationError('No connection metadata found in input. Please ensure input comes from SmartLogger discovery.');
 					}
 
 					const host = metadata.host as string;
 					const port = metadata.port as number;
+					const transport = (metadata.transport as ModbusTransport | undefined) ?? 'tcp';
+					const smartLoggerUnitId = (metadata.unitId as number | undefined) ?? 3;
 					
 					// Extract devices from allDevices array
 					if (!inputData.allDevices || !Array.isArray(inputData.allDevices)) {
@@ -401,13 +971,7 @@ export class Sun2000 implements INodeType {
 
 					// Filter for inverters if requested
 					if (filterInverters) {
-						discoveredDevices = discoveredDevices.filter(device => 
-							device.deviceName && (
-								device.deviceName.includes('SUN2000') ||
-								device.deviceName.includes('100KTL') ||
-								device.deviceName.toLowerCase().includes('inverter')
-							)
-						);
+						discoveredDevices = discoveredDevices.filter(device => SmartLoggerFunctions.isInverterDevice(device.deviceName));
 					}
 
 					if (discoveredDevices.length === 0) {
@@ -417,35 +981,55 @@ export class Sun2000 implements INodeType {
 							json: {
 								ts: timestamp,
 								message: 'No inverters found in discovery data',
-								operation: 'readFromDiscovery'
+								operation
 							},
 							pairedItem: itemIndex,
 						});
 					} else {
 						// Connect and read data
 						const config: ModbusConnectionConfig = {
+							transport,
 							host,
 							port,
+							...(serial && { serial }),
 							unitId: 0, // Use unit ID 0 for remapped register access
 							timeout: 5000,
 							retries: 3,
 						};
 
-						const modbusClient = new HuaweiModbusClient(config);
+						const modbusClient = connectionPool.acquire(config);
 						const sun2000 = new SUN2000Functions(modbusClient);
 
 						try {
 							const connected = await modbusClient.connect();
 							if (!connected) {
-								throw new ApplicationError(`Failed to connect to SmartLogger at ${host}:${port}`);
+								throw new ApplicationError(`Failed to connect to SmartLogger at ${connectionKey(config)}`);
 							}
 
-							// Read data from all discovered inverters
-							const inverters = await sun2000.readMultipleInverters(discoveredDevices, dataCategories, alwaysIncludeAlarmTexts, useIEC);
-							
-							// Convert to individual items format
-							const timestamp = new Date().toISOString();
-							Sun2000.processInverterDataToItems(inverters, timestamp, returnData, itemIndex);
+							if (operation === 'homeAssistantDiscovery') {
+								// Device information (model, serial number, firmware) is needed for the device entries
+								const categories = dataCategories.includes('device') ? dataCategories : [...dataCategories, 'device'];
+								const inverters = await sun2000.readMultipleInverters(discoveredDevices, categories, alwaysIncludeAlarmTexts, useIEC);
+								const includeSmartLogger = this.getNodeParameter('includeSmartLogger', itemIndex, true) as boolean;
+
+								await Sun2000.processHomeAssistantMessages(
+									this,
+									inverters,
+									includeSmartLogger ? new SmartLoggerFunctions(modbusClient, smartLoggerUnitId) : undefined,
+									smartLoggerUnitId,
+									config.host || config.serial?.path || '',
+									returnData,
+									itemIndex,
+									useIEC,
+								);
+							} else {
+								// Read data from all discovered inverters
+								const inverters = await sun2000.readMultipleInverters(discoveredDevices, dataCategories, alwaysIncludeAlarmTexts, useIEC);
+								
+								// Convert to individual items format
+								const timestamp = new Date().toISOString();
+								Sun2000.processInverterDataToItems(inverters, timestamp, returnData, itemIndex, { ...output, host: config.host || config.serial?.path });
+							}
 
 						} finally {
 							await modbusClient.disconnect();
@@ -453,16 +1037,13 @@ export class Sun2000 implements INodeType {
 					}
 				} else if (operation === 'specifyDevices') {
 					// Manual device specification mode
-					const host = this.getNodeParameter('host', itemIndex) as string;
-					const port = this.getNodeParameter('port', itemIndex) as number;
 					const inverterAddresses = this.getNodeParameter('inverterAddresses', itemIndex) as string;
-					const timeout = this.getNodeParameter('timeout', itemIndex, 5000) as number;
-					const retries = this.getNodeParameter('retries', itemIndex, 3) as number;
+					const connectionMode = this.getNodeParameter('connectionMode', itemIndex, 'smartLogger') as Sun2000ConnectionMode;
 					const useCustomNames = this.getNodeParameter('useCustomNames', itemIndex, false) as boolean;
 					const deviceNameMappings = this.getNodeParameter('deviceNameMappings', itemIndex, {}) as { mappings?: DeviceNameMapping[] };
 
 					// Parse inverter addresses
-					const addresses = Sun2000.parseAddressList(inverterAddresses);
+					const addresses = parseAddressList(inverterAddresses, connectionMode === 'direct');
 					if (addresses.length === 0) {
 						throw new ApplicationError('No valid inverter addresses specified. Please provide addresses like "12,13,14,15" or "12-15".');
 					}
@@ -488,20 +1069,17 @@ export class Sun2000 implements INodeType {
 
 					// Connect and read data
 					const config: ModbusConnectionConfig = {
-						host,
-						port,
+						...(await getConnectionConfig(this, itemIndex, 0)),
 						unitId: 0, // Use unit ID 0 for remapped register access
-						timeout,
-						retries,
 					};
 
-					const modbusClient = new HuaweiModbusClient(config);
-					const sun2000 = new SUN2000Functions(modbusClient);
+					const modbusClient = connectionPool.acquire(config);
+					const sun2000 = new SUN2000Functions(modbusClient, undefined, connectionMode);
 
 					try {
 						const connected = await modbusClient.connect();
 						if (!connected) {
-							throw new ApplicationError(`Failed to connect to SmartLogger at ${host}:${port}`);
+							throw new ApplicationError(`Failed to connect to ${connectionMode === 'direct' ? 'inverter' : 'SmartLogger'} at ${connectionKey(config)}`);
 						}
 
 						// Read data from specified inverters
@@ -509,7 +1087,96 @@ export class Sun2000 implements INodeType {
 						
 						// Convert to individual items format
 						const timestamp = new Date().toISOString();
-						Sun2000.processInverterDataToItems(inverters, timestamp, returnData, itemIndex);
+						Sun2000.processInverterDataToItems(inverters, timestamp, returnData, itemIndex, { ...output, host: config.host || config.serial?.path });
+
+					} finally {
+						await modbusClient.disconnect();
+					}
+				} else if (operation === 'control') {
+					// Write control setpoints/commands to inverters via the SmartLogger gateway
+					const inverterAddresses = this.getNodeParameter('inverterAddresses', itemIndex) as string;
+					const controlAction = this.getNodeParameter('controlAction', itemIndex) as Sun2000ControlAction;
+					const verifyWrite = this.getNodeParameter('verifyWrite', itemIndex, true) as boolean;
+					const controlValue = Sun2000.getControlValue(this, controlAction, itemIndex);
+					const batteryOptions = Sun2000.getBatteryControlOptions(this, controlAction, itemIndex);
+
+					const addresses = parseAddressList(inverterAddresses);
+					if (addresses.length === 0) {
+						throw new ApplicationError('No valid inverter addresses specified. Please provide addresses like "12,13,14,15" or "12-15".');
+					}
+
+					const devices = addresses.map((addr: number) => ({
+						unitId: addr,
+						deviceAddress: addr,
+						deviceName: `Inverter-${addr}`
+					}));
+
+					const config: ModbusConnectionConfig = {
+						...(await getConnectionConfig(this, itemIndex, 0)),
+						unitId: 0,
+					};
+
+					const modbusClient = connectionPool.acquire(config);
+					const writeGuard = new WriteGuard(modbusClient, 'sun2000', Sun2000.getWriteGuardOptions(this, itemIndex));
+					const sun2000 = new SUN2000Functions(modbusClient, writeGuard);
+
+					try {
+						const connected = await modbusClient.connect();
+						if (!connected) {
+							throw new ApplicationError(`Failed to connect to SmartLogger at ${connectionKey(config)}`);
+						}
+
+						const results = await sun2000.controlMultipleInverters(devices, controlAction, controlValue, verifyWrite, batteryOptions);
+
+						const timestamp = new Date().toISOString();
+						for (const result of results) {
+							returnData.push({
+								json: { ts: timestamp, ...result } as IDataObject,
+								pairedItem: itemIndex,
+							});
+						}
+
+					} finally {
+						await modbusClient.disconnect();
+					}
+				} else if (operation === 'readRawRegisters') {
+					// Arbitrary register read for registers the register map does not cover
+					const rawUnitId = this.getNodeParameter('rawUnitId', itemIndex) as number;
+
+					const config: ModbusConnectionConfig = {
+						...(await getConnectionConfig(this, itemIndex, rawUnitId)),
+						unitId: rawUnitId,
+					};
+
+					const modbusClient = connectionPool.acquire(config);
+
+					try {
+						const connected = await modbusClient.connect();
+						if (!connected) {
+							throw new ApplicationError(`Failed to connect to SmartLogger at ${connectionKey(config)}`);
+						}
+
+						const rawResult = await modbusClient.readRawRegisters(
+							this.getNodeParameter('rawAddress', itemIndex) as number,
+							this.getNodeParameter('rawCount', itemIndex, 1) as number,
+							rawUnitId,
+							{
+								dataType: this.getNodeParameter('rawDataType', itemIndex, 'U16') as RawDataType,
+								gain: this.getNodeParameter('rawGain', itemIndex, 1) as number,
+								wordOrder: this.getNodeParameter('rawWordOrder', itemIndex, 'highFirst') as WordOrder,
+							}
+						);
+						if (!rawResult.success) {
+							throw new ApplicationError(`Failed to read registers: ${describeModbusError(rawResult)}`);
+						}
+
+						returnData.push({
+							json: {
+								ts: new Date().toISOString(),
+								...rawResult.data,
+							} as IDataObject,
+							pairedItem: itemIndex,
+						});
 
 					} finally {
 						await modbusClient.disconnect();
@@ -540,35 +1207,79 @@ export class Sun2000 implements INodeType {
 	}
 
 	/**
-	 * Parse address list string into array of numbers
-	 * Examples: "12,13,14,15" -> [12,13,14,15]
-	 *           "12-15" -> [12,13,14,15]
-	 *           "1-2,6,8" -> [1,2,6,8]
+	 * Get the setpoint value for a control action from the node parameters
+	 * Power-on/shutdown and stop commands carry no value
 	 */
-	private static parseAddressList(addressString: string): number[] {
-		const addresses: number[] = [];
-		const parts = addressString.split(',').map(s => s.trim());
-
-		for (const part of parts) {
-			if (part.includes('-')) {
-				// Handle range like "12-15"
-				const [start, end] = part.split('-').map(Number);
-				if (!isNaN(start) && !isNaN(end) && start <= end) {
-					for (let i = start; i <= end; i++) {
-						if (i >= 1 && i <= 247) {
-							addresses.push(i);
-						}
-					}
-				}
-			} else {
-				// Handle individual address like "12"
-				const addr = Number(part);
-				if (!isNaN(addr) && addr >= 1 && addr <= 247) {
-					addresses.push(addr);
-				}
+	private static getControlValue(
+		context: IExecuteFunctions,
+		action: Sun2000ControlAction,
+		itemIndex: number
+	): number {
+		switch (action) {
+			case 'activePowerPercent':
+				return context.getNodeParameter('activePowerPercent', itemIndex) as number;
+			case 'activePowerFixed':
+				return context.getNodeParameter('activePowerKw', itemIndex) as number;
+			case 'powerFactor':
+				return context.getNodeParameter('powerFactor', itemIndex) as number;
+			case 'reactivePowerRatio':
+				return context.getNodeParameter('reactivePowerRatio', itemIndex) as number;
+			case 'batteryWorkingMode':
+				return context.getNodeParameter('batteryWorkingMode', itemIndex) as number;
+			case 'batteryMaxChargePower':
+			case 'batteryMaxDischargePower':
+			case 'batteryForcedCharge':
+			case 'batteryForcedDischarge':
+				return context.getNodeParameter('batteryPowerKw', itemIndex) as number;
+			case 'batteryGridCharging':
+				return context.getNodeParameter('batteryGridCharging', itemIndex) ? 1 : 0;
+			default:
+				return 0;
+		}
+	}
+
+	/**
+	 * Get the forced charge/discharge duration and the TOU schedule for battery actions
+	 * The schedule is validated here so an invalid one fails before any inverter is written
+	 */
+	private static getBatteryControlOptions(
+		context: IExecuteFunctions,
+		action: Sun2000ControlAction,
+		itemIndex: number
+	): BatteryControlOptions {
+		if (action === 'batteryForcedCharge' || action === 'batteryForcedDischarge') {
+			return { durationMinutes: context.getNodeParameter('batteryDuration', itemIndex, 60) as number };
+		}
+
+		if (action === 'batteryTouSchedule') {
+			const rawSchedule = context.getNodeParameter('touSchedule', itemIndex, '[]');
+			try {
+				const schedule = (typeof rawSchedule === 'string' ? JSON.parse(rawSchedule) : rawSchedule) as BatteryTouPeriod[];
+				encodeTouSchedule(schedule);
+				return { schedule };
+			} catch (error) {
+				throw new ApplicationError(`Invalid TOU schedule: ${(error as Error).message}`);
 			}
 		}
 
-		return [...new Set(addresses)].sort((a, b) => a - b);
+		return {};
+	}
+
+	/**
+	 * Build the write-safety options (arm, dry run, rate limit, audit context) for an item
+	 */
+	private static getWriteGuardOptions(context: IExecuteFunctions, itemIndex: number): WriteGuardOptions {
+		const workflow = context.getWorkflow();
+		return {
+			armed: context.getNodeParameter('armWrites', itemIndex, false) as boolean,
+			dryRun: context.getNodeParameter('dryRun', itemIndex, false) as boolean,
+			minWriteInterval: context.getNodeParameter('minWriteInterval', itemIndex, DEFAULT_MIN_WRITE_INTERVAL) as number,
+			context: {
+				workflowId: workflow.id,
+				workflowName: workflow.name,
+				executionId: context.getExecutionId(),
+				nodeName: context.getNode().name,
+			},
+		};
 	}
 }
\ No newline at end of file
@@ -6,8 +6,14 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError, ApplicationError } from 'n8n-workflow';
 
-import { HuaweiModbusClient, ModbusConnectionConfig } from '../utils/modbus-utils';
-import { SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { getConnectionConfig, testModbusCredentials } from '../utils/connection-config';
+import { connectionPool } from '../utils/connection-pool';
+import { connectionProperties } from '../utils/connection-properties';
+import { smartLoggerDataToLines } from '../utils/line-protocol';
+import { OPENMETRICS_CONTENT_TYPE, OpenMetricsBuilder } from '../utils/openmetrics';
+import { ModbusConnectionConfig, RawDataType, WordOrder, connectionKey, describeModbusError, parseAddressList } from '../utils/modbus-utils';
+import { DeviceInfo, PlantControlSetpoints, SmartLoggerFunctions } from '../utils/smartlogger-functions';
+import { DEFAULT_MIN_WRITE_INTERVAL, WriteGuard, WriteGuardOptions } from '../utils/write-safety';
 
 export class SmartLogger implements INodeType {
 	description: INodeTypeDescription = {
@@ -23,6 +29,18 @@ export class SmartLogger implements INodeType {
 		},
 		inputs: [NodeConnectionType.Main],
 		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'huaweiModbusTcpApi',
+				required: true,
+				testedBy: 'huaweiModbusTcpApiTest',
+				displayOptions: {
+					show: {
+						connectionSource: ['credentials'],
+					},
+				},
+			},
+		],
 		properties: [
 			{
 				displayName: 'Operation',
@@ -30,6 +48,12 @@ export class SmartLogger implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Discover Devices',
+						value: 'discoverDevices',
+						description: 'Discover all connected devices (inverters, meters, etc.)',
+						action: 'Discover connected devices',
+					},
 					{
 						name: 'Read Data',
 						value: 'readData',
@@ -37,10 +61,22 @@ export class SmartLogger implements INodeType {
 						action: 'Read data from smart logger',
 					},
 					{
-						name: 'Discover Devices',
-						value: 'discoverDevices',
-						description: 'Discover all connected devices (inverters, meters, etc.)',
-						action: 'Discover connected devices',
+						name: 'Read Meters',
+						value: 'readMeters',
+						description: 'Read power meters (DTSU666) connected to the SmartLogger',
+						action: 'Read power meters',
+					},
+					{
+						name: 'Read Raw Registers',
+						value: 'readRawRegisters',
+						description: 'Read and decode arbitrary holding registers',
+						action: 'Read raw registers',
+					},
+					{
+						name: 'Set Plant Control',
+						value: 'setPlantControl',
+						description: 'Write plant active power, reactive power and power factor setpoints',
+						action: 'Set plant control setpoints',
 					},
 				],
 				default: 'readData',
@@ -73,7 +109,7 @@ export class SmartLogger implements INodeType {
 					{
 						name: 'Alarms',
 						value: 'alarms',
-						description: 'System alarms and status information',
+						description: 'System alarms decoded into named alarms with severity, and the active-alarm count',
 					},
 				],
 				default: ['power'],
@@ -100,43 +136,309 @@ export class SmartLogger implements INodeType {
 				description: 'Choose output field naming: Descriptive or IEC 61850 standard',
 			},
 			{
-				displayName: 'Host',
-				name: 'host',
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						operation: ['readData'],
+					},
+				},
+				options: [
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'One object per data category',
+					},
+					{
+						name: 'InfluxDB Line Protocol',
+						value: 'influxLineProtocol',
+						description: 'Power and environmental data as line protocol in a lineProtocol field; system information and alarms stay JSON',
+					},
+					{
+						name: 'OpenMetrics (Prometheus)',
+						value: 'openMetrics',
+						description: 'Power and environmental data as OpenMetrics text in an openMetrics field; system information and alarms stay JSON',
+					},
+				],
+				default: 'json',
+				description: 'Format of the power and environmental data',
+			},
+			{
+				displayName: 'Site',
+				name: 'site',
 				type: 'string',
-				default: '192.168.1.10',
-				placeholder: '192.168.1.10',
-				description: 'IP address or hostname of the SmartLogger device',
-				required: true,
+				default: '',
+				placeholder: 'e.g. plant-north',
+				description: 'Value of the site label on every metric (left out when empty)',
+				displayOptions: {
+					show: {
+						operation: ['readData'],
+						outputFormat: ['openMetrics'],
+					},
+				},
 			},
+			...connectionProperties({
+				unitId: { displayName: 'Unit ID', required: true },
+			}),
 			{
-				displayName: 'Port',
-				name: 'port',
+				displayName: 'Register Address',
+				name: 'rawAddress',
 				type: 'number',
-				default: 502,
-				description: 'Modbus TCP port (default: 502)',
-				required: true,
+				default: 40000,
+				description: 'First holding register to read',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
 			},
 			{
-				displayName: 'Unit ID',
-				name: 'unitId',
+				displayName: 'Register Count',
+				name: 'rawCount',
 				type: 'number',
-				default: 3,
-				description: 'SmartLogger Modbus unit ID (typically 3 for SmartLogger)',
-				required: true,
+				default: 1,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 125,
+				},
+				description: 'Number of registers to read (max 125)',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
+			},
+			{
+				displayName: 'Data Type',
+				name: 'rawDataType',
+				type: 'options',
+				options: [
+					{
+						name: 'Bitfield',
+						value: 'BITFIELD',
+						description: 'List of set bit positions',
+					},
+					{
+						name: 'Signed 16-Bit (I16)',
+						value: 'I16',
+					},
+					{
+						name: 'Signed 32-Bit (I32)',
+						value: 'I32',
+					},
+					{
+						name: 'String',
+						value: 'STR',
+						description: 'ASCII string, two characters per register',
+					},
+					{
+						name: 'Unsigned 16-Bit (U16)',
+						value: 'U16',
+					},
+					{
+						name: 'Unsigned 32-Bit (U32)',
+						value: 'U32',
+					},
+					{
+						name: 'Unsigned 64-Bit (U64)',
+						value: 'U64',
+					},
+				],
+				default: 'U16',
+				description: 'How to decode the register values',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+					},
+				},
 			},
 			{
-				displayName: 'Connection Timeout (Ms)',
-				name: 'timeout',
+				displayName: 'Gain',
+				name: 'rawGain',
 				type: 'number',
-				default: 5000,
-				description: 'Connection timeout in milliseconds',
+				default: 1,
+				description: 'Divisor applied to the decoded value (e.g. 10, 100, 1000)',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+						rawDataType: ['U16', 'I16', 'U32', 'I32', 'U64'],
+					},
+				},
+			},
+			{
+				displayName: 'Word Order',
+				name: 'rawWordOrder',
+				type: 'options',
+				options: [
+					{
+						name: 'High Word First (Huawei)',
+						value: 'highFirst',
+						description: 'First register holds the most significant word',
+					},
+					{
+						name: 'Low Word First',
+						value: 'lowFirst',
+						description: 'First register holds the least significant word',
+					},
+				],
+				default: 'highFirst',
+				description: 'Word order of multi-register values',
+				displayOptions: {
+					show: {
+						operation: ['readRawRegisters'],
+						rawDataType: ['U32', 'I32', 'U64'],
+					},
+				},
+			},
+			{
+				displayName: 'Setpoints',
+				name: 'plantSetpoints',
+				type: 'collection',
+				placeholder: 'Add Setpoint',
+				default: {},
+				options: [
+					{
+						displayName: 'Active Power Limit (%)',
+						name: 'activePowerPercent',
+						type: 'number',
+						default: 100,
+						typeOptions: {
+							minValue: 0,
+							maxValue: 100,
+							numberPrecision: 1,
+						},
+						description: 'Plant active power limit as a percentage of plant capacity',
+					},
+					{
+						displayName: 'Active Power Limit (kW)',
+						name: 'activePowerKw',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 1,
+						},
+						description: 'Plant active power limit in kW',
+					},
+					{
+						displayName: 'Power Factor',
+						name: 'powerFactor',
+						type: 'number',
+						default: 1,
+						typeOptions: {
+							minValue: -1,
+							maxValue: 1,
+							numberPrecision: 3,
+						},
+						description: 'Plant power factor setpoint (negative = underexcited)',
+					},
+					{
+						displayName: 'Reactive Power (kVar)',
+						name: 'reactivePowerKvar',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							numberPrecision: 1,
+						},
+						description: 'Plant reactive power setpoint in kVar',
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: ['setPlantControl'],
+					},
+				},
+			},
+			{
+				displayName: 'Verify by Read-Back',
+				name: 'verifyWrite',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to read each setpoint back after writing to confirm the SmartLogger accepted it',
+				displayOptions: {
+					show: {
+						operation: ['setPlantControl'],
+					},
+				},
 			},
 			{
-				displayName: 'Retry Attempts',
-				name: 'retries',
+				displayName: 'Arm Writes',
+				name: 'armWrites',
+				type: 'boolean',
+				default: false,
+				description: 'Whether writes may reach the device. Unarmed writes are blocked and only reported in the audit record.',
+				displayOptions: {
+					show: {
+						operation: ['setPlantControl'],
+					},
+				},
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to only report what would be written (with the current value) without writing',
+				displayOptions: {
+					show: {
+						operation: ['setPlantControl'],
+					},
+				},
+			},
+			{
+				displayName: 'Minimum Write Interval (S)',
+				name: 'minWriteInterval',
 				type: 'number',
-				default: 3,
-				description: 'Number of retry attempts on connection failure',
+				default: 10,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Minimum time between two successful writes to the same register. Faster writes are rejected, except stop and shutdown commands.',
+				displayOptions: {
+					show: {
+						operation: ['setPlantControl'],
+					},
+				},
+			},
+			{
+				displayName: 'Meter Source',
+				name: 'meterSource',
+				type: 'options',
+				options: [
+					{
+						name: 'From Discovery Input',
+						value: 'discovery',
+						description: 'Meters found in the "allDevices" output of Discover Devices',
+					},
+					{
+						name: 'Specify Addresses',
+						value: 'manual',
+						description: 'Enter the meter unit IDs',
+					},
+				],
+				default: 'discovery',
+				displayOptions: {
+					show: {
+						operation: ['readMeters'],
+					},
+				},
+			},
+			{
+				displayName: 'Meter Addresses',
+				name: 'meterAddresses',
+				type: 'string',
+				default: '',
+				placeholder: '11 or 11,21',
+				description: 'Comma-separated meter unit IDs or ranges',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['readMeters'],
+						meterSource: ['manual'],
+					},
+				},
 			},
 			{
 				displayName: 'Discovery Range',
@@ -178,6 +480,12 @@ export class SmartLogger implements INodeType {
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			huaweiModbusTcpApiTest: testModbusCredentials,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
@@ -186,25 +494,15 @@ export class SmartLogger implements INodeType {
 			try {
 				// Get node parameters
 				const operation = this.getNodeParameter('operation', itemIndex) as string;
-				const host = this.getNodeParameter('host', itemIndex) as string;
-				const port = this.getNodeParameter('port', itemIndex) as number;
-				const unitId = this.getNodeParameter('unitId', itemIndex) as number;
-				const timeout = this.getNodeParameter('timeout', itemIndex, 5000) as number;
-				const retries = this.getNodeParameter('retries', itemIndex, 3) as number;
 				const namingConvention = this.getNodeParameter('namingConvention', itemIndex, 'descriptive') as string;
 				const useIEC = namingConvention === 'iec61850';
 
-				// Create Modbus client configuration
-				const config: ModbusConnectionConfig = {
-					host,
-					port,
-					unitId,
-					timeout,
-					retries,
-				};
+				// Create Modbus client configuration (credential or node parameters)
+				const config: ModbusConnectionConfig = await getConnectionConfig(this, itemIndex, 3);
+				const { host, port, unitId } = config;
 
 				// Initialize Modbus client and SmartLogger functions
-				const modbusClient = new HuaweiModbusClient(config);
+				const modbusClient = connectionPool.acquire(config);
 				const smartLogger = new SmartLoggerFunctions(modbusClient, unitId);
 
 				let responseData: any = {};
@@ -213,7 +511,7 @@ export class SmartLogger implements INodeType {
 					// Connect to the device
 					const connected = await modbusClient.connect();
 					if (!connected) {
-						throw new ApplicationError(`Failed to connect to SmartLogger at ${host}:${port}`);
+						throw new ApplicationError(`Failed to connect to SmartLogger at ${connectionKey(config)}`);
 					}
 
 					// Execute the requested operation
@@ -252,13 +550,37 @@ export class SmartLogger implements INodeType {
 							for (let i = 0; i < categories.length; i++) {
 								responseData[categories[i]] = results[i];
 							}
+
+							// Replace the power/environmental blocks with their line protocol or metrics
+							const outputFormat = this.getNodeParameter('outputFormat', itemIndex, 'json') as string;
+							if (outputFormat === 'influxLineProtocol') {
+								const lines = smartLoggerDataToLines(
+									responseData,
+									{ host: host || config.serial?.path, unitId, deviceName: 'SmartLogger' },
+									new Date().toISOString(),
+								);
+								delete responseData.power;
+								delete responseData.environmental;
+								responseData.lineProtocol = lines.join('\n');
+							} else if (outputFormat === 'openMetrics') {
+								const metrics = new OpenMetricsBuilder(useIEC);
+								metrics.addSmartLoggerData(responseData, {
+									site: this.getNodeParameter('site', itemIndex, '') as string,
+									unitId,
+									deviceName: 'SmartLogger',
+								});
+								delete responseData.power;
+								delete responseData.environmental;
+								responseData.openMetrics = metrics.render();
+								responseData.contentType = OPENMETRICS_CONTENT_TYPE;
+							}
 							break;
 
 						case 'discoverDevices':
 							const discoveryRange = this.getNodeParameter('discoveryRange', itemIndex, '1-247') as string;
 							const discoveryTimeout = this.getNodeParameter('discoveryTimeout', itemIndex, 2000) as number;
 							const parallelScans = this.getNodeParameter('parallelScans', itemIndex, 10) as number;
-							const unitIds = SmartLogger.parseDiscoveryRange(discoveryRange);
+							const unitIds = parseAddressList(discoveryRange);
 							
 							// Create a separate client config for discovery with shorter timeout
 							const discoveryConfig: ModbusConnectionConfig = {
@@ -267,7 +589,7 @@ export class SmartLogger implements INodeType {
 								retries: 1 // Fewer retries for discovery
 							};
 							
-							const discoveryClient = new HuaweiModbusClient(discoveryConfig);
+							const discoveryClient = connectionPool.acquire(discoveryConfig);
 							const discoveryLogger = new SmartLoggerFunctions(discoveryClient, unitId);
 							
 							try {
@@ -277,6 +599,53 @@ export class SmartLogger implements INodeType {
 							}
 							break;
 
+						case 'readMeters':
+							const meterSource = this.getNodeParameter('meterSource', itemIndex, 'discovery') as string;
+							let meters: Array<{ unitId: number; deviceName?: string }>;
+							if (meterSource === 'manual') {
+								const meterAddresses = this.getNodeParameter('meterAddresses', itemIndex) as string;
+								meters = parseAddressList(meterAddresses).map(meterUnitId => ({ unitId: meterUnitId }));
+							} else {
+								const allDevices = items[itemIndex].json.allDevices;
+								if (!Array.isArray(allDevices)) {
+									throw new ApplicationError('No device discovery data found in input. Expected "allDevices" array from Discover Devices.');
+								}
+								meters = (allDevices as DeviceInfo[]).filter(device => SmartLoggerFunctions.isMeterDevice(device.deviceName));
+							}
+							if (meters.length === 0) {
+								throw new ApplicationError('No power meters to read. Specify meter addresses or discover devices first.');
+							}
+							responseData.meters = await smartLogger.readMultipleMeters(meters, useIEC);
+							break;
+
+						case 'readRawRegisters':
+							const rawResult = await modbusClient.readRawRegisters(
+								this.getNodeParameter('rawAddress', itemIndex) as number,
+								this.getNodeParameter('rawCount', itemIndex, 1) as number,
+								unitId,
+								{
+									dataType: this.getNodeParameter('rawDataType', itemIndex, 'U16') as RawDataType,
+									gain: this.getNodeParameter('rawGain', itemIndex, 1) as number,
+									wordOrder: this.getNodeParameter('rawWordOrder', itemIndex, 'highFirst') as WordOrder,
+								}
+							);
+							if (!rawResult.success) {
+								throw new ApplicationError(`Failed to read registers: ${describeModbusError(rawResult)}`);
+							}
+							responseData.raw = rawResult.data;
+							break;
+
+						case 'setPlantControl':
+							const plantSetpoints = this.getNodeParameter('plantSetpoints', itemIndex, {}) as PlantControlSetpoints;
+							const verifyWrite = this.getNodeParameter('verifyWrite', itemIndex, true) as boolean;
+							if (Object.keys(plantSetpoints).length === 0) {
+								throw new ApplicationError('No setpoints specified. Add at least one setpoint to write.');
+							}
+							const writeGuard = new WriteGuard(modbusClient, 'smartlogger', SmartLogger.getWriteGuardOptions(this, itemIndex));
+							const controlLogger = new SmartLoggerFunctions(modbusClient, unitId, writeGuard);
+							responseData.plantControl = await controlLogger.applyPlantControl(plantSetpoints, verifyWrite);
+							break;
+
 						default:
 							throw new ApplicationError(`Unknown operation: ${operation}`);
 					}
@@ -286,6 +655,8 @@ export class SmartLogger implements INodeType {
 						operation,
 						host,
 						port,
+						...(config.transport && config.transport !== 'tcp' && { transport: config.transport }),
+						...(config.serial && { serial: config.serial }),
 						unitId,
 						timestamp: new Date().toISOString(),
 						success: true,
@@ -327,34 +698,20 @@ export class SmartLogger implements INodeType {
 	}
 
 	/**
-	 * Parse discovery range string into array of unit IDs
-	 * Examples: "1-15,21-30" -> [1,2,3,...,15,21,22,...,30]
-	 *           "12,13,14,15" -> [12,13,14,15]
+	 * Build the write-safety options (arm, dry run, rate limit, audit context) for an item
 	 */
-	static parseDiscoveryRange(rangeString: string): number[] {
-		const unitIds: number[] = [];
-		const parts = rangeString.split(',').map(s => s.trim());
-
-		for (const part of parts) {
-			if (part.includes('-')) {
-				// Handle range like "1-15"
-				const [start, end] = part.split('-').map(Number);
-				if (!isNaN(start) && !isNaN(end) && start <= end) {
-					for (let i = start; i <= end; i++) {
-						if (i >= 1 && i <= 247) { // Valid Modbus unit ID range
-							unitIds.push(i);
-						}
-					}
-				}
-			} else {
-				// Handle individual ID like "12"
-				const id = Number(part);
-				if (!isNaN(id) && id >= 1 && id <= 247) {
-					unitIds.push(id);
-				}
-			}
-		}
-
-		return [...new Set(unitIds)].sort((a, b) => a - b); // Remove duplicates and sort
+	static getWriteGuardOptions(context: IExecuteFunctions, itemIndex: number): WriteGuardOptions {
+		const workflow = context.getWorkflow();
+		return {
+			armed: context.getNodeParameter('armWrites', itemIndex, false) as boolean,
+			dryRun: context.getNodeParameter('dryRun', itemIndex, false) as boolean,
+			minWriteInterval: context.getNodeParameter('minWriteInterval', itemIndex, DEFAULT_MIN_WRITE_INTERVAL) as number,
+			context: {
+				workflowId: workflow.id,
+				workflowName: workflow.name,
+				executionId: context.getExecutionId(),
+				nodeName: context.getNode().name,
+			},
+		};
 	}
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Device Alarm Decoding
+ *
+ * Alarm tables map each bit of a device's alarm registers to the Huawei
+ * alarm ID, name, severity, typical cause and suggested action. The tables
+ * live next to the register maps (sun2000-registers.ts, smartlogger-registers.ts).
+ */
+
+export enum AlarmSeverity {
+	Major = 'major',
+	Minor = 'minor',
+	Warning = 'warning',
+}
+
+export interface AlarmDefinition {
+	id?: number;                 // Huawei alarm ID (where documented)
+	register: string;            // Alarm register field name (e.g. 'alarm1')
+	address: number;             // Alarm register address
+	bit: number;                 // Bit within the register (0 = LSB)
+	name: string;
+	severity: AlarmSeverity;
+	cause: string;               // Typical cause
+	suggestion: string;          // Suggested action
+}
+
+export type AlarmCounts = Record<AlarmSeverity, number>;
+
+/**
+ * Active alarms for the given alarm register values (keyed by register field name)
+ * Registers that were not read are skipped
+ */
+export function decodeAlarms(
+	definitions: AlarmDefinition[],
+	registers: Record<string, unknown>,
+): AlarmDefinition[] {
+	return definitions.filter(definition => {
+		const value = registers[definition.register];
+		return typeof value === 'number' && (value & (1 << definition.bit)) !== 0;
+	});
+}
+
+/**
+ * Number of active alarms per severity
+ */
+export function countAlarmsBySeverity(alarms: AlarmDefinition[]): AlarmCounts {
+	const counts: AlarmCounts = {
+		[AlarmSeverity.Major]: 0,
+		[AlarmSeverity.Minor]: 0,
+		[AlarmSeverity.Warning]: 0,
+	};
+
+	for (const alarm of alarms) {
+		counts[alarm.severity]++;
+	}
+
+	return counts;
+}
+
+/**
+ * Legacy alarm text, e.g. 'Grid Overvoltage (Major)'
+ */
+export function formatAlarmText(alarm: AlarmDefinition): string {
+	return `${alarm.name} (${alarm.severity.charAt(0).toUpperCase()}${alarm.severity.slice(1)})`;
+}
+
+export type AlarmTransition = 'raised' | 'cleared';
+
+export interface AlarmChange {
+	event: AlarmTransition;
+	alarm: AlarmDefinition;
+}
+
+/**
+ * Stable key of an alarm within a device, e.g. 'alarm1.8'
+ */
+export function alarmKey(alarm: AlarmDefinition): string {
+	return `${alarm.register}.${alarm.bit}`;
+}
+
+/**
+ * Alarms raised or cleared between two sets of alarm register values
+ * Registers missing from the current values (not read) are not compared
+ */
+export function diffAlarms(
+	definitions: AlarmDefinition[],
+	previous: Record<string, unknown>,
+	current: Record<string, unknown>,
+): AlarmChange[] {
+	const changes: AlarmChange[] = [];
+
+	for (const definition of definitions) {
+		const now = current[definition.register];
+		if (typeof now !== 'number') {
+			continue;
+		}
+
+		const before = previous[definition.register];
+		const mask = 1 << definition.bit;
+		const wasActive = typeof before === 'number' && (before & mask) !== 0;
+		const isActive = (now & mask) !== 0;
+
+		if (isActive !== wasActive) {
+			changes.push({ event: isActive ? 'raised' : 'cleared', alarm: definition });
+		}
+	}
+
+	return changes;
+}
@@ -0,0 +1,141 @@
+/**
+ * Telemetry Condition Rules
+ *
+ * Threshold rules on decoded field values (e.g. internalTemperature > 70) with
+ * hysteresis, a minimum duration and an optional SmartLogger guard condition.
+ * Evaluation is a pure state transition so the caller decides where the state
+ * lives (workflow static data for the condition trigger).
+ */
+
+export type ConditionOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'ne';
+
+export type ConditionSource = 'inverter' | 'smartLogger';
+
+export const CONDITION_OPERATOR_SYMBOLS: Record<ConditionOperator, string> = {
+	lt: '<',
+	lte: '<=',
+	gt: '>',
+	gte: '>=',
+	eq: '==',
+	ne: '!=',
+};
+
+export interface FieldCondition {
+	field: string;               // Descriptive field name (e.g. 'insulationResistance')
+	operator: ConditionOperator;
+	threshold: number;
+}
+
+export interface ConditionRule extends FieldCondition {
+	name: string;
+	source: ConditionSource;     // Device the field is read from
+	hysteresis?: number;         // Distance back past the threshold before an active rule clears (<, <=, >, >= only)
+	minDurationSeconds?: number; // How long the condition must hold before the rule fires
+	guard?: FieldCondition;      // SmartLogger condition that must also hold (e.g. irradiance > 300)
+}
+
+/**
+ * Per rule and device state between evaluations
+ */
+export interface ConditionState {
+	since?: string;              // ISO time the condition was first met
+	triggeredAt?: string;        // ISO time the rule fired (omitted while pending)
+}
+
+export type ConditionTransition = 'triggered' | 'cleared';
+
+export interface ConditionEvaluation {
+	state: ConditionState;
+	event?: ConditionTransition;
+}
+
+/**
+ * Compare a value against a threshold
+ */
+export function compareValue(value: number, operator: ConditionOperator, threshold: number): boolean {
+	switch (operator) {
+		case 'lt':
+			return value < threshold;
+		case 'lte':
+			return value <= threshold;
+		case 'gt':
+			return value > threshold;
+		case 'gte':
+			return value >= threshold;
+		case 'eq':
+			return value === threshold;
+		case 'ne':
+			return value !== threshold;
+	}
+}
+
+/**
+ * Whether the rule condition holds for a value
+ * An active rule keeps holding until the value is back past the threshold by the hysteresis
+ */
+export function isConditionMet(rule: ConditionRule, value: number, active: boolean): boolean {
+	const hysteresis = active ? Math.abs(rule.hysteresis ?? 0) : 0;
+
+	switch (rule.operator) {
+		case 'lt':
+		case 'lte':
+			return compareValue(value, rule.operator, rule.threshold + hysteresis);
+		case 'gt':
+		case 'gte':
+			return compareValue(value, rule.operator, rule.threshold - hysteresis);
+		default:
+			return compareValue(value, rule.operator, rule.threshold);
+	}
+}
+
+/**
+ * Next state of a rule for one device
+ * A missing value (device or field not read) leaves the state unchanged
+ */
+export function evaluateCondition(
+	rule: ConditionRule,
+	value: number | undefined,
+	guardMet: boolean,
+	state: ConditionState,
+	now: Date,
+): ConditionEvaluation {
+	if (value === undefined) {
+		return { state };
+	}
+
+	const active = state.triggeredAt !== undefined;
+	const met = guardMet && isConditionMet(rule, value, active);
+
+	if (active) {
+		return met ? { state } : { state: {}, event: 'cleared' };
+	}
+
+	if (!met) {
+		return { state: {} };
+	}
+
+	const since = state.since ?? now.toISOString();
+	const heldSeconds = (now.getTime() - new Date(since).getTime()) / 1000;
+	if (heldSeconds < (rule.minDurationSeconds ?? 0)) {
+		return { state: { since } };
+	}
+
+	return { state: { since, triggeredAt: now.toISOString() }, event: 'triggered' };
+}
+
+/**
+ * Readable rule text, e.g. 'activePower == 0 while irradiance > 300 for 10 min'
+ */
+export function describeCondition(rule: ConditionRule): string {
+	const format = (condition: FieldCondition) =>
+		`${condition.field} ${CONDITION_OPERATOR_SYMBOLS[condition.operator]} ${condition.threshold}`;
+
+	let text = format(rule);
+	if (rule.guard) {
+		text += ` while ${format(rule.guard)}`;
+	}
+	if (rule.minDurationSeconds) {
+		text += ` for ${rule.minDurationSeconds / 60} min`;
+	}
+	return text;
+}
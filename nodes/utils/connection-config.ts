@@ -0,0 +1,151 @@
+/**
+ * Connection Settings
+ *
+ * Resolves transport, host, port, unit ID, timeout and retries for a node item, either
+ * from the "Huawei Modbus TCP" credential or from the node's own parameters,
+ * and implements the credential test used by all nodes.
+ */
+
+import type {
+	ICredentialTestFunctions,
+	ICredentialsDecrypted,
+	IExecuteFunctions,
+	INodeCredentialTestResult,
+	IPollFunctions,
+} from 'n8n-workflow';
+
+import {
+	HuaweiModbusClient,
+	ModbusConnectionConfig,
+	ModbusTransport,
+	SerialPortConfig,
+	describeModbusError,
+} from './modbus-utils';
+
+export const HUAWEI_MODBUS_CREDENTIAL_TYPE = 'huaweiModbusTcpApi';
+
+/**
+ * Fields stored in the Huawei Modbus TCP credential
+ */
+export interface HuaweiModbusCredentials {
+	transport?: ModbusTransport;
+	host: string;
+	port: number;
+	serialPath?: string;
+	baudRate?: number;
+	parity?: SerialPortConfig['parity'];
+	unitId: number;
+	timeout: number;
+	retries: number;
+}
+
+/**
+ * Connection settings for an item
+ * With "Connection" set to credentials the credential wins; otherwise the host/port/unitId/
+ * timeout/retries node parameters are used, falling back to defaultUnitId for nodes without a unit ID
+ */
+export async function getConnectionConfig(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	defaultUnitId: number
+): Promise<ModbusConnectionConfig> {
+	const connectionSource = context.getNodeParameter('connectionSource', itemIndex, 'parameters') as string;
+
+	if (connectionSource === 'credentials') {
+		const credentials = await context.getCredentials<HuaweiModbusCredentials>(HUAWEI_MODBUS_CREDENTIAL_TYPE, itemIndex);
+		return credentialsToConfig(credentials, defaultUnitId);
+	}
+
+	return parametersToConfig((name, fallback) => context.getNodeParameter(name, itemIndex, fallback), defaultUnitId);
+}
+
+/**
+ * Connection settings for a polling trigger (same parameters, no input items)
+ */
+export async function getPollConnectionConfig(
+	context: IPollFunctions,
+	defaultUnitId: number
+): Promise<ModbusConnectionConfig> {
+	const connectionSource = context.getNodeParameter('connectionSource', 'parameters') as string;
+
+	if (connectionSource === 'credentials') {
+		const credentials = await context.getCredentials<HuaweiModbusCredentials>(HUAWEI_MODBUS_CREDENTIAL_TYPE);
+		return credentialsToConfig(credentials, defaultUnitId);
+	}
+
+	return parametersToConfig((name, fallback) => context.getNodeParameter(name, fallback), defaultUnitId);
+}
+
+/**
+ * Client configuration from the transport/host/port/serial node parameters
+ */
+function parametersToConfig(
+	getParameter: (name: string, fallback?: unknown) => unknown,
+	defaultUnitId: number
+): ModbusConnectionConfig {
+	const transport = getParameter('transport', 'tcp') as ModbusTransport;
+	return {
+		transport,
+		host: transport === 'serial' ? '' : getParameter('host') as string,
+		port: transport === 'serial' ? 0 : getParameter('port') as number,
+		unitId: getParameter('unitId', defaultUnitId) as number,
+		timeout: getParameter('timeout', 5000) as number,
+		retries: getParameter('retries', 3) as number,
+		...(transport === 'serial' && {
+			serial: {
+				path: getParameter('serialPath') as string,
+				baudRate: getParameter('baudRate', 9600) as number,
+				parity: getParameter('parity', 'none') as SerialPortConfig['parity'],
+			},
+		}),
+	};
+}
+
+/**
+ * Client configuration from the credential fields
+ */
+function credentialsToConfig(credentials: HuaweiModbusCredentials, defaultUnitId: number): ModbusConnectionConfig {
+	const transport = credentials.transport ?? 'tcp';
+	return {
+		transport,
+		host: credentials.host ?? '',
+		port: credentials.port ?? 502,
+		unitId: credentials.unitId ?? defaultUnitId,
+		timeout: credentials.timeout ?? 5000,
+		retries: credentials.retries ?? 3,
+		...(transport === 'serial' && {
+			serial: {
+				path: credentials.serialPath ?? '',
+				baudRate: credentials.baudRate ?? 9600,
+				parity: credentials.parity ?? 'none',
+			},
+		}),
+	};
+}
+
+/**
+ * Credential test: connect and read the device name register (65524)
+ */
+export async function testModbusCredentials(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted
+): Promise<INodeCredentialTestResult> {
+	const data = (credential.data ?? {}) as unknown as HuaweiModbusCredentials;
+	const config = credentialsToConfig(data, 3);
+	if (config.transport === 'serial' ? !config.serial?.path : !config.host) {
+		return { status: 'Error', message: config.transport === 'serial' ? 'Serial port is required' : 'Host is required' };
+	}
+
+	// Dedicated connection, so a failing test never affects pooled connections
+	const client = new HuaweiModbusClient({ ...config, retries: 0 });
+
+	try {
+		const result = await client.readString(65524, 10, 20);
+		if (!result.success) {
+			return { status: 'Error', message: `Could not read device name: ${describeModbusError(result)}` };
+		}
+		return { status: 'OK', message: `Connected to ${result.data || 'device'}` };
+	} finally {
+		await client.disconnect();
+	}
+}
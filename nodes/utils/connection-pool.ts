@@ -0,0 +1,149 @@
+/**
+ * Modbus Connection Pool
+ *
+ * Process-wide pool of Modbus connections keyed by host:port (or serial port), shared by
+ * all node executions. The SmartLogger only accepts a few simultaneous
+ * Modbus TCP clients, so workflows polling the same device share sockets
+ * instead of each opening their own.
+ */
+
+import { HuaweiModbusClient, ModbusConnection, ModbusConnectionConfig, connectionKey } from './modbus-utils';
+
+export interface ConnectionPoolOptions {
+	maxConnectionsPerDevice?: number; // Connections opened to one host:port (or serial port) at most (default: 1)
+	idleTimeout?: number;        // Close a connection unused for this long, in milliseconds (default: 30000)
+}
+
+export const DEFAULT_MAX_CONNECTIONS_PER_DEVICE = 1;
+export const DEFAULT_IDLE_TIMEOUT = 30000;
+
+interface PooledConnection {
+	connection: ModbusConnection;
+	linkSettings: string;        // Transport and serial framing the connection was opened with
+	leases: number;              // Clients currently using the connection
+	idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Transport and serial framing of a config, e.g. 'tcp' or 'serial 9600 8N1'
+ * Clients sharing a pooled connection must agree on these
+ */
+function describeLinkSettings(config: ModbusConnectionConfig): string {
+	const transport = config.transport ?? 'tcp';
+	if (transport !== 'serial' || !config.serial) {
+		return transport;
+	}
+
+	const { baudRate, parity = 'none', dataBits = 8, stopBits = 1 } = config.serial;
+	return `serial ${baudRate} ${dataBits}${parity.charAt(0).toUpperCase()}${stopBits}`;
+}
+
+export class ModbusConnectionPool {
+	private devices = new Map<string, PooledConnection[]>();
+
+	constructor(private options: ConnectionPoolOptions = {}) {}
+
+	/**
+	 * Get a client for the device, reusing a pooled connection when possible
+	 * Once the cap is reached, new clients share the least busy connection; the
+	 * connection's request queue serializes their requests.
+	 * Call disconnect() on the client to return the connection to the pool.
+	 * Throws while the device is in use with other link settings (transport, baud
+	 * rate, parity, data/stop bits), which a shared connection cannot honour.
+	 */
+	acquire(config: ModbusConnectionConfig): HuaweiModbusClient {
+		const key = connectionKey(config);
+		let pooled = this.devices.get(key) ?? [];
+		const maxConnections = Math.max(1, this.options.maxConnectionsPerDevice ?? DEFAULT_MAX_CONNECTIONS_PER_DEVICE);
+
+		// Idle connections with other link settings (e.g. a changed baud rate) are replaced
+		const linkSettings = describeLinkSettings(config);
+		if (pooled.length > 0 && pooled[0].linkSettings !== linkSettings) {
+			if (pooled.some(candidate => candidate.leases > 0)) {
+				throw new Error(`${key} is in use with ${pooled[0].linkSettings}, cannot share it with ${linkSettings}`);
+			}
+			this.closeConnections(pooled);
+			this.devices.delete(key);
+			pooled = [];
+		}
+
+		let entry = pooled.find(candidate => candidate.leases === 0);
+		if (!entry && pooled.length < maxConnections) {
+			entry = { connection: new ModbusConnection(config), linkSettings, leases: 0 };
+			pooled.push(entry);
+			this.devices.set(key, pooled);
+		}
+		if (!entry) {
+			entry = pooled.reduce((least, candidate) =>
+				candidate.connection.pendingRequestCount < least.connection.pendingRequestCount ? candidate : least
+			);
+		}
+
+		if (entry.idleTimer) {
+			clearTimeout(entry.idleTimer);
+			entry.idleTimer = undefined;
+		}
+		entry.leases++;
+
+		const leased = entry;
+		return new HuaweiModbusClient(config, leased.connection, () => this.release(key, leased));
+	}
+
+	/**
+	 * Return a lease; the connection is closed after the idle timeout if nobody picks it up
+	 */
+	private release(key: string, entry: PooledConnection): void {
+		entry.leases = Math.max(0, entry.leases - 1);
+		if (entry.leases > 0) {
+			return;
+		}
+
+		entry.idleTimer = setTimeout(() => {
+			entry.connection.close();
+			const remaining = (this.devices.get(key) ?? []).filter(candidate => candidate !== entry);
+			if (remaining.length > 0) {
+				this.devices.set(key, remaining);
+			} else {
+				this.devices.delete(key);
+			}
+		}, this.options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT);
+
+		// Idle connections must not keep the process alive
+		entry.idleTimer.unref();
+	}
+
+	/**
+	 * Number of pooled connections and active leases per device
+	 */
+	getStats(): Array<{ device: string; connections: number; leases: number }> {
+		return [...this.devices.entries()].map(([device, pooled]) => ({
+			device,
+			connections: pooled.length,
+			leases: pooled.reduce((total, entry) => total + entry.leases, 0),
+		}));
+	}
+
+	/**
+	 * Close all pooled connections (e.g. on shutdown)
+	 */
+	closeAll(): void {
+		for (const pooled of this.devices.values()) {
+			this.closeConnections(pooled);
+		}
+		this.devices.clear();
+	}
+
+	private closeConnections(pooled: PooledConnection[]): void {
+		for (const entry of pooled) {
+			if (entry.idleTimer) {
+				clearTimeout(entry.idleTimer);
+			}
+			entry.connection.close();
+		}
+	}
+}
+
+/**
+ * Pool shared by every node in this n8n process
+ */
+export const connectionPool = new ModbusConnectionPool();
@@ -0,0 +1,189 @@
+/**
+ * Connection Node Properties
+ *
+ * The "Connection" selector and the transport, host/port, serial, unit ID,
+ * timeout and retry parameters shared by all nodes. Nodes add them to their
+ * properties and read them with getConnectionConfig/getPollConnectionConfig.
+ */
+
+import type { IDisplayOptions, INodeProperties } from 'n8n-workflow';
+
+export interface ConnectionPropertiesOptions {
+	show?: IDisplayOptions['show']; // Extra conditions for every property (e.g. operations using the connection)
+	hostDescription?: string;    // Host parameter description
+	unitId?: {                   // Unit ID parameter (omitted = the node has none)
+		displayName: string;
+		required?: boolean;
+		show?: IDisplayOptions['show']; // Extra conditions for the unit ID only
+	};
+}
+
+/**
+ * Connection parameters, shown when "Connection" is set to node parameters
+ */
+export function connectionProperties(options: ConnectionPropertiesOptions = {}): INodeProperties[] {
+	const settings = options.unitId ? 'host, port and unit ID' : 'host and port';
+	const parametersShow = { ...options.show, connectionSource: ['parameters'] };
+	const serialShow = { ...parametersShow, transport: ['serial'] };
+
+	const properties: INodeProperties[] = [
+		{
+			displayName: 'Connection',
+			name: 'connectionSource',
+			type: 'options',
+			noDataExpression: true,
+			options: [
+				{
+					name: 'Credentials',
+					value: 'credentials',
+					description: `Use ${settings} from a Huawei Modbus TCP credential`,
+				},
+				{
+					name: 'Node Parameters',
+					value: 'parameters',
+					description: `Enter ${settings} in this node`,
+				},
+			],
+			default: 'parameters',
+			description: 'Where the connection settings come from',
+			...(options.show && { displayOptions: { show: options.show } }),
+		},
+		{
+			displayName: 'Transport',
+			name: 'transport',
+			type: 'options',
+			options: [
+				{
+					name: 'Modbus TCP',
+					value: 'tcp',
+				},
+				{
+					name: 'Modbus RTU over TCP',
+					value: 'rtuOverTcp',
+					description: 'RTU frames through a transparent serial-to-Ethernet converter',
+				},
+				{
+					name: 'Modbus RTU Serial',
+					value: 'serial',
+					description: 'Local RS485 adapter',
+				},
+			],
+			default: 'tcp',
+			displayOptions: {
+				show: parametersShow,
+			},
+		},
+		{
+			displayName: 'Host',
+			name: 'host',
+			type: 'string',
+			default: '192.168.1.10',
+			placeholder: '192.168.1.10',
+			description: options.hostDescription ?? 'IP address or hostname of the SmartLogger device',
+			required: true,
+			displayOptions: {
+				show: parametersShow,
+				hide: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Port',
+			name: 'port',
+			type: 'number',
+			default: 502,
+			description: 'Modbus TCP port (default: 502)',
+			required: true,
+			displayOptions: {
+				show: parametersShow,
+				hide: {
+					transport: ['serial'],
+				},
+			},
+		},
+		{
+			displayName: 'Serial Port',
+			name: 'serialPath',
+			type: 'string',
+			default: '/dev/ttyUSB0',
+			description: 'Serial device of the RS485 adapter (e.g. /dev/ttyUSB0 or COM3)',
+			required: true,
+			displayOptions: {
+				show: serialShow,
+			},
+		},
+		{
+			displayName: 'Baud Rate',
+			name: 'baudRate',
+			type: 'number',
+			default: 9600,
+			description: 'Serial speed (Huawei default: 9600)',
+			displayOptions: {
+				show: serialShow,
+			},
+		},
+		{
+			displayName: 'Parity',
+			name: 'parity',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'Even',
+					value: 'even',
+				},
+				{
+					name: 'Odd',
+					value: 'odd',
+				},
+			],
+			default: 'none',
+			displayOptions: {
+				show: serialShow,
+			},
+		},
+	];
+
+	if (options.unitId) {
+		properties.push({
+			displayName: options.unitId.displayName,
+			name: 'unitId',
+			type: 'number',
+			default: 3,
+			description: 'SmartLogger Modbus unit ID (typically 3 for SmartLogger)',
+			...(options.unitId.required && { required: true }),
+			displayOptions: {
+				show: { ...parametersShow, ...options.unitId.show },
+			},
+		});
+	}
+
+	properties.push(
+		{
+			displayName: 'Connection Timeout (Ms)',
+			name: 'timeout',
+			type: 'number',
+			default: 5000,
+			description: 'Connection timeout in milliseconds',
+			displayOptions: {
+				show: parametersShow,
+			},
+		},
+		{
+			displayName: 'Retry Attempts',
+			name: 'retries',
+			type: 'number',
+			default: 3,
+			description: 'Number of retry attempts on connection failure',
+			displayOptions: {
+				show: parametersShow,
+			},
+		},
+	);
+
+	return properties;
+}
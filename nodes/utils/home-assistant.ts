@@ -0,0 +1,198 @@
+/**
+ * Home Assistant MQTT Discovery
+ *
+ * Builds the retained sensor config messages Home Assistant uses for MQTT
+ * discovery and the matching state messages. State payloads are the nested
+ * node items; each sensor reads its field with a value template. Sensor names,
+ * units and device classes come from the register map.
+ */
+
+import { RegisterDefinition, RegisterType, fieldName, uniqueRegisters } from './register-map';
+import { SMARTLOGGER_REGISTERS } from './smartlogger-registers';
+import { SUN2000_DIRECT_TELEMETRY_REGISTERS, SUN2000_REGISTERS, SUN2000_REMAPPED_REGISTERS } from './sun2000-registers';
+
+export interface HomeAssistantOptions {
+	discoveryPrefix: string;     // Home Assistant discovery prefix (default 'homeassistant')
+	stateTopicPrefix: string;    // Prefix of the state topics
+	useIEC?: boolean;            // Field naming of the state payloads
+}
+
+export interface HomeAssistantDevice {
+	id: string;                  // Topic and unique ID part, [a-zA-Z0-9_-] only
+	name: string;
+	model?: string;
+	serialNumber?: string;
+	firmwareVersion?: string;
+	viaDevice?: string;          // ID of the gateway device (SmartLogger)
+}
+
+export interface MqttMessage {
+	topic: string;
+	payload: Record<string, unknown>;
+	retain: boolean;
+}
+
+/**
+ * Field shown as a sensor: output group in the state payload and its definition
+ */
+interface SensorField {
+	group: string;
+	definition: Pick<RegisterDefinition, 'name' | 'iecName' | 'unit' | 'description' | 'type'>;
+}
+
+/**
+ * Home Assistant device classes by register unit
+ */
+const UNIT_DEVICE_CLASSES: Record<string, string> = {
+	'kW': 'power',
+	'kvar': 'reactive_power',
+	'kVA': 'apparent_power',
+	'V': 'voltage',
+	'A': 'current',
+	'Hz': 'frequency',
+	'°C': 'temperature',
+	'kWh': 'energy',
+	'W/m²': 'irradiance',
+	'm/s': 'wind_speed',
+	'kg': 'weight',
+};
+
+/**
+ * Device classes of fields whose unit does not identify them
+ */
+const FIELD_DEVICE_CLASSES: Record<string, string> = {
+	batteryStateOfCharge: 'battery',
+	powerFactor: 'power_factor',
+	meterPowerFactor: 'power_factor',
+};
+
+/**
+ * Register types not shown as sensors
+ */
+const SKIPPED_TYPES: RegisterType[] = ['STR', 'BITFIELD'];
+
+/**
+ * Units of energy counters (state class total_increasing)
+ */
+const ENERGY_COUNTER_UNITS = ['kWh', 'kvarh'];
+
+const SUN2000_SENSOR_GROUPS = ['telemetry', 'status', 'battery', 'meter'];
+
+const SMARTLOGGER_SENSOR_CATEGORIES = ['power', 'environmental'];
+
+/**
+ * Derived SUN2000 fields that are not in the register map
+ */
+const SUN2000_DERIVED_SENSORS: SensorField[] = [
+	{ group: 'status', definition: { name: 'deviceStatusText', description: 'Device status', type: 'ENUM' } },
+];
+
+/**
+ * Register fields shown through a derived sensor instead (the status code as deviceStatusText)
+ */
+const SUN2000_REPLACED_FIELDS = ['deviceStatus'];
+
+const SUN2000_SENSORS: SensorField[] = [
+	...uniqueRegisters([...SUN2000_REMAPPED_REGISTERS, ...SUN2000_DIRECT_TELEMETRY_REGISTERS, ...SUN2000_REGISTERS])
+		.filter(definition => definition.group && SUN2000_SENSOR_GROUPS.includes(definition.group))
+		.filter(definition => !SUN2000_REPLACED_FIELDS.includes(definition.name))
+		.map(definition => ({ group: definition.group as string, definition })),
+	...SUN2000_DERIVED_SENSORS,
+];
+
+const SMARTLOGGER_SENSORS: SensorField[] = SMARTLOGGER_REGISTERS
+	.filter(definition => SMARTLOGGER_SENSOR_CATEGORIES.includes(definition.category))
+	.map(definition => ({ group: definition.category, definition }));
+
+/**
+ * Topic-safe identifier part
+ */
+export function toTopicId(value: string | number): string {
+	return String(value).replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Device ID of the SmartLogger at a host (or serial port) and unit ID
+ */
+export function smartLoggerDeviceId(host: string, unitId: number): string {
+	return `smartlogger_${toTopicId(host)}_${unitId}`;
+}
+
+/**
+ * Device ID of an inverter: its serial number when read, otherwise host and unit ID
+ */
+export function inverterDeviceId(serialNumber: string | undefined, host: string, unitId: number): string {
+	return serialNumber ? `sun2000_${toTopicId(serialNumber)}` : `sun2000_${toTopicId(host)}_${unitId}`;
+}
+
+function deviceInfo(device: HomeAssistantDevice): Record<string, unknown> {
+	return {
+		identifiers: [device.id],
+		name: device.name,
+		manufacturer: 'Huawei',
+		...(device.model && { model: device.model }),
+		...(device.serialNumber && { serial_number: device.serialNumber }),
+		...(device.firmwareVersion && { sw_version: device.firmwareVersion }),
+		...(device.viaDevice && { via_device: device.viaDevice }),
+	};
+}
+
+/**
+ * Config messages for every sensor with a value in the state payload, followed by the state message
+ */
+function deviceMessages(
+	device: HomeAssistantDevice,
+	state: Record<string, any>,
+	sensors: SensorField[],
+	options: HomeAssistantOptions,
+): MqttMessage[] {
+	const stateTopic = `${options.stateTopicPrefix}/${device.id}/state`;
+	const messages: MqttMessage[] = [];
+
+	for (const { group, definition } of sensors) {
+		const field = fieldName(definition, options.useIEC);
+		const value = state[group]?.[field];
+		if ((typeof value !== 'number' && typeof value !== 'string') || SKIPPED_TYPES.includes(definition.type)) {
+			continue;
+		}
+
+		// Numeric values with a unit or device class are measurements; codes and texts have no state class
+		const deviceClass = FIELD_DEVICE_CLASSES[definition.name] ?? (definition.unit ? UNIT_DEVICE_CLASSES[definition.unit] : undefined);
+		let stateClass: string | undefined;
+		if (typeof value === 'number' && (definition.unit || deviceClass)) {
+			stateClass = definition.unit && ENERGY_COUNTER_UNITS.includes(definition.unit) ? 'total_increasing' : 'measurement';
+		}
+
+		messages.push({
+			topic: `${options.discoveryPrefix}/sensor/${device.id}/${toTopicId(field)}/config`,
+			payload: {
+				name: definition.description,
+				unique_id: `${device.id}_${toTopicId(field)}`,
+				state_topic: stateTopic,
+				value_template: `{{ value_json.${group}.${field} }}`,
+				...(definition.unit && { unit_of_measurement: definition.unit }),
+				...(deviceClass && { device_class: deviceClass }),
+				...(stateClass && { state_class: stateClass }),
+				device: deviceInfo(device),
+			},
+			retain: true,
+		});
+	}
+
+	messages.push({ topic: stateTopic, payload: state, retain: false });
+	return messages;
+}
+
+/**
+ * Discovery and state messages for a nested SUN2000 item (see createNestedInverterData)
+ */
+export function inverterMessages(item: Record<string, any>, device: HomeAssistantDevice, options: HomeAssistantOptions): MqttMessage[] {
+	return deviceMessages(device, item, SUN2000_SENSORS, options);
+}
+
+/**
+ * Discovery and state messages for SmartLogger power/environmental data
+ */
+export function smartLoggerMessages(state: Record<string, any>, device: HomeAssistantDevice, options: HomeAssistantOptions): MqttMessage[] {
+	return deviceMessages(device, state, SMARTLOGGER_SENSORS, options);
+}
@@ -0,0 +1,164 @@
+/**
+ * InfluxDB Line Protocol Output
+ *
+ * Formats node output as InfluxDB line protocol: one measurement per data
+ * category, the device identification as tags, numeric/boolean/string values
+ * as fields and the read time in nanoseconds. PV strings and battery packs are
+ * written as separate points tagged with their number.
+ */
+
+import { FieldDefinition, fieldName } from './register-map';
+import { BATTERY_PACKS_FIELD, BATTERY_PACK_FIELDS, PV_STRINGS_FIELD, PV_STRING_FIELDS } from './sun2000-registers';
+
+export type LineTags = Record<string, string | number | undefined>;
+
+export interface LinePoint {
+	measurement: string;
+	tags: LineTags;
+	fields: Record<string, unknown>;
+	timestamp: string;           // ISO time of the read
+}
+
+/**
+ * Nested SUN2000 item groups written as one measurement each
+ */
+const SUN2000_MEASUREMENT_GROUPS = ['telemetry', 'status', 'battery', 'meter'];
+
+/**
+ * Array fields written as one point per entry: output field, measurement, number field and tag
+ */
+const SUN2000_SERIES: Array<{ group: string; field: FieldDefinition; measurement: string; numberField: FieldDefinition; tag: string }> = [
+	{ group: 'telemetry', field: PV_STRINGS_FIELD, measurement: 'sun2000_pv', numberField: PV_STRING_FIELDS.stringNumber, tag: 'string' },
+	{ group: 'battery', field: BATTERY_PACKS_FIELD, measurement: 'sun2000_battery_pack', numberField: BATTERY_PACK_FIELDS.packNumber, tag: 'pack' },
+];
+
+/**
+ * Both output names of a field; items carry one of them depending on the naming convention
+ */
+function bothNames(field: FieldDefinition): string[] {
+	return [fieldName(field), fieldName(field, true)];
+}
+
+/**
+ * SmartLogger categories written as measurements
+ */
+const SMARTLOGGER_MEASUREMENT_CATEGORIES = ['power', 'environmental'];
+
+/**
+ * Escaped line feed or carriage return, so a value never ends the line early
+ */
+function escapeLineBreak(match: string): string {
+	return match === '\n' ? '\\n' : '\\r';
+}
+
+function escapeKey(value: string): string {
+	return value.replace(/[,= ]/g, match => `\\${match}`).replace(/[\n\r]/g, escapeLineBreak);
+}
+
+function escapeMeasurement(value: string): string {
+	return value.replace(/[, ]/g, match => `\\${match}`);
+}
+
+function formatFieldValue(value: unknown): string | undefined {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) ? String(value) : undefined;
+	}
+	if (typeof value === 'boolean') {
+		return value ? 'true' : 'false';
+	}
+	if (typeof value === 'string') {
+		return `"${value.replace(/["\\]/g, match => `\\${match}`).replace(/[\n\r]/g, escapeLineBreak)}"`;
+	}
+	return undefined;                // Objects and arrays are not written as fields
+}
+
+/**
+ * Nanosecond timestamp of an ISO time (millisecond precision)
+ */
+export function toNanoseconds(timestamp: string): string {
+	return `${new Date(timestamp).getTime()}000000`;
+}
+
+/**
+ * Format one point, or return null when it has no writable fields
+ * Tags without a value are left out
+ */
+export function formatLine(point: LinePoint): string | null {
+	const fields = Object.entries(point.fields)
+		.map(([key, value]) => [key, formatFieldValue(value)])
+		.filter((entry): entry is [string, string] => entry[1] !== undefined)
+		.map(([key, value]) => `${escapeKey(key)}=${value}`);
+
+	if (fields.length === 0) {
+		return null;
+	}
+
+	const tags = Object.entries(point.tags)
+		.filter(([, value]) => value !== undefined && value !== '')
+		.map(([key, value]) => `,${escapeKey(key)}=${escapeKey(String(value))}`)
+		.join('');
+
+	return `${escapeMeasurement(point.measurement)}${tags} ${fields.join(',')} ${toNanoseconds(point.timestamp)}`;
+}
+
+function formatLines(points: LinePoint[]): string[] {
+	return points
+		.map(point => formatLine(point))
+		.filter((line): line is string => line !== null);
+}
+
+/**
+ * Line protocol for a nested SUN2000 item (see createNestedInverterData)
+ * Error items produce no lines
+ */
+export function inverterItemToLines(item: Record<string, any>, host?: string): string[] {
+	if (item.error) {
+		return [];
+	}
+
+	const tags: LineTags = {
+		host,
+		unitId: item.unitId,
+		deviceName: item.deviceName,
+		serialNumber: item.serialNumber,
+	};
+	const points: LinePoint[] = [];
+
+	for (const group of SUN2000_MEASUREMENT_GROUPS) {
+		if (item[group]) {
+			points.push({ measurement: `sun2000_${group}`, tags, fields: item[group], timestamp: item.ts });
+		}
+	}
+
+	for (const series of SUN2000_SERIES) {
+		const entries = bothNames(series.field).map(field => item[series.group]?.[field]).find(Array.isArray) as Array<Record<string, unknown>> | undefined;
+
+		for (const [index, entry] of (entries ?? []).entries()) {
+			const numberField = bothNames(series.numberField).find(field => entry[field] !== undefined);
+			const fields = { ...entry };
+			if (numberField) {
+				delete fields[numberField];
+			}
+
+			points.push({
+				measurement: series.measurement,
+				tags: { ...tags, [series.tag]: numberField ? entry[numberField] as number : index + 1 },
+				fields,
+				timestamp: item.ts,
+			});
+		}
+	}
+
+	return formatLines(points);
+}
+
+/**
+ * Line protocol for the SmartLogger power and environmental blocks of a Read Data result
+ */
+export function smartLoggerDataToLines(data: Record<string, any>, tags: LineTags, timestamp: string): string[] {
+	return formatLines(
+		SMARTLOGGER_MEASUREMENT_CATEGORIES
+			.filter(category => data[category])
+			.map(category => ({ measurement: `smartlogger_${category}`, tags, fields: data[category], timestamp }))
+	);
+}
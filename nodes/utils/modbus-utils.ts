@@ -10,18 +10,285 @@
 
 import ModbusRTU from 'modbus-serial';
 
+/**
+ * Physical link to the device
+ * tcp: Modbus TCP (MBAP framing)
+ * rtuOverTcp: RTU frames through a transparent serial-to-Ethernet converter
+ * serial: RTU over a local RS485 adapter
+ */
+export type ModbusTransport = 'tcp' | 'rtuOverTcp' | 'serial';
+
+export interface SerialPortConfig {
+	path: string;                // Serial device, e.g. /dev/ttyUSB0 or COM3
+	baudRate: number;            // Huawei default: 9600
+	parity?: 'none' | 'even' | 'odd'; // Default: none
+	dataBits?: 7 | 8;            // Default: 8
+	stopBits?: 1 | 2;            // Default: 1
+}
+
 export interface ModbusConnectionConfig {
 	host: string;
 	port: number;
 	unitId: number;
 	timeout: number;
 	retries: number;
+	maxConcurrentRequests?: number; // Requests in flight on the connection at once (default: 1, strictly serialized)
+	transport?: ModbusTransport; // Default: tcp
+	serial?: SerialPortConfig;   // Required for the serial transport
+}
+
+/**
+ * Identity of the physical endpoint: host:port for TCP links, the device path for serial
+ */
+export function connectionKey(config: Pick<ModbusConnectionConfig, 'host' | 'port' | 'transport' | 'serial'>): string {
+	return config.transport === 'serial' ? `serial:${config.serial?.path ?? ''}` : `${config.host}:${config.port}`;
+}
+
+/**
+ * Parse address list string into a sorted array of unit IDs (1-247, duplicates removed)
+ * Unit ID 0 is only accepted with allowUnitZero: it addresses the inverter itself
+ * on its own WLAN in direct connection mode, but is the broadcast ID behind a gateway.
+ * Examples: "12,13,14,15" -> [12,13,14,15]
+ *           "12-15" -> [12,13,14,15]
+ *           "1-2,6,8" -> [1,2,6,8]
+ */
+export function parseAddressList(addressString: string, allowUnitZero: boolean = false): number[] {
+	const minUnitId = allowUnitZero ? 0 : 1;
+	const addresses: number[] = [];
+	const parts = addressString.split(',').map(s => s.trim());
+
+	for (const part of parts) {
+		if (part.includes('-')) {
+			// Handle range like "12-15"
+			const [start, end] = part.split('-').map(Number);
+			if (!isNaN(start) && !isNaN(end) && start <= end) {
+				for (let i = start; i <= end; i++) {
+					if (i >= minUnitId && i <= 247) {
+						addresses.push(i);
+					}
+				}
+			}
+		} else {
+			// Handle individual address like "12"
+			const addr = Number(part);
+			if (part !== '' && !isNaN(addr) && addr >= minUnitId && addr <= 247) {
+				addresses.push(addr);
+			}
+		}
+	}
+
+	return [...new Set(addresses)].sort((a, b) => a - b);
+}
+
+/**
+ * Failure categories for Modbus requests
+ * Exception categories map to the Modbus exception code returned by the device
+ */
+export enum ModbusErrorCategory {
+	Timeout = 'timeout',                                 // No response within the timeout
+	ConnectionRefused = 'connectionRefused',             // TCP connection refused
+	ConnectionFailed = 'connectionFailed',               // Connection could not be opened or was lost
+	IllegalFunction = 'illegalFunction',                 // Exception 0x01
+	IllegalAddress = 'illegalAddress',                   // Exception 0x02 (register not supported by this model)
+	IllegalValue = 'illegalValue',                       // Exception 0x03
+	DeviceFailure = 'deviceFailure',                     // Exception 0x04
+	DeviceBusy = 'deviceBusy',                           // Exception 0x05/0x06
+	GatewayPathUnavailable = 'gatewayPathUnavailable',   // Exception 0x0A
+	GatewayTargetFailed = 'gatewayTargetFailed',         // Exception 0x0B (device behind the SmartLogger is offline)
+	CrcError = 'crcError',                               // Corrupted response frame
+	Unknown = 'unknown',
+}
+
+export interface ModbusErrorInfo {
+	category: ModbusErrorCategory;
+	exceptionCode?: number;      // Modbus exception code, when the device answered with an exception
+	message: string;             // Underlying error message of the last attempt
+	transient: boolean;          // Whether retrying the same request can succeed
+	attempts: number;            // Number of requests sent
+	elapsedMs: number;           // Time spent including retries
 }
 
 export interface ModbusReadResult<T> {
 	success: boolean;
 	data?: T;
 	error?: string;
+	errorInfo?: ModbusErrorInfo;
+}
+
+export interface WriteOptions {
+	verify?: boolean;            // Read the registers back and compare with the written values
+	verifyDelay?: number;        // Delay before read-back in milliseconds (default: none)
+}
+
+export interface ModbusWriteResult {
+	success: boolean;
+	address: number;
+	values: number[];            // Register values written
+	readBack?: number[];         // Register values read back (when verify is enabled)
+	verified?: boolean;          // Whether read-back matched the written values
+	error?: string;
+	errorInfo?: ModbusErrorInfo;
+}
+
+/**
+ * Contiguous register range (start address + number of registers)
+ */
+export interface RegisterRange {
+	address: number;
+	count: number;
+}
+
+/**
+ * Options for coalescing register ranges into read blocks
+ */
+export interface ReadPlanOptions {
+	maxBlockSize?: number;       // Registers per request (default: 125, the Modbus limit)
+	maxGap?: number;             // Unused registers allowed between merged ranges (default: 16)
+	gaps?: RegisterRange[];      // Known ranges that return illegal-address and must never be read
+}
+
+/**
+ * Data types supported when decoding arbitrary (unmapped) registers
+ */
+export type RawDataType = 'U16' | 'I16' | 'U32' | 'I32' | 'U64' | 'STR' | 'BITFIELD';
+
+/**
+ * Word order of multi-register values
+ * highFirst: first register holds the most significant word (Huawei default)
+ * lowFirst: first register holds the least significant word
+ */
+export type WordOrder = 'highFirst' | 'lowFirst';
+
+export interface RawDecodeOptions {
+	dataType: RawDataType;
+	gain?: number;               // Raw value is divided by gain (default 1)
+	wordOrder?: WordOrder;       // Default: highFirst
+}
+
+export interface RawRegisterRead {
+	address: number;
+	count: number;
+	unitId: number;
+	dataType: RawDataType;
+	wordOrder: WordOrder;
+	gain: number;
+	registers: number[];         // Raw register values as read
+	value: number | number[] | string; // Decoded value (array when count spans several values)
+}
+
+/**
+ * Number of registers per value for each raw data type (STR uses the full count)
+ */
+export const RAW_TYPE_LENGTHS: Record<RawDataType, number> = {
+	U16: 1,
+	I16: 1,
+	U32: 2,
+	I32: 2,
+	U64: 4,
+	STR: 1,
+	BITFIELD: 1,
+};
+
+/**
+ * Maximum number of registers in a single Read Holding Registers request
+ */
+export const MAX_REGISTERS_PER_READ = 125;
+
+/**
+ * Default number of unused registers tolerated between two merged ranges
+ */
+export const DEFAULT_MAX_REGISTER_GAP = 16;
+
+/**
+ * Default pipelining depth: one Modbus transaction in flight per connection
+ */
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 1;
+
+/**
+ * Category of each Modbus exception code
+ */
+const EXCEPTION_CATEGORIES: Record<number, ModbusErrorCategory> = {
+	0x01: ModbusErrorCategory.IllegalFunction,
+	0x02: ModbusErrorCategory.IllegalAddress,
+	0x03: ModbusErrorCategory.IllegalValue,
+	0x04: ModbusErrorCategory.DeviceFailure,
+	0x05: ModbusErrorCategory.DeviceBusy,
+	0x06: ModbusErrorCategory.DeviceBusy,
+	0x0A: ModbusErrorCategory.GatewayPathUnavailable,
+	0x0B: ModbusErrorCategory.GatewayTargetFailed,
+};
+
+/**
+ * Categories where the device rejected the request itself; retrying cannot succeed
+ */
+const NON_TRANSIENT_CATEGORIES: ModbusErrorCategory[] = [
+	ModbusErrorCategory.IllegalFunction,
+	ModbusErrorCategory.IllegalAddress,
+	ModbusErrorCategory.IllegalValue,
+];
+
+/**
+ * Categories meaning the device could not be reached at all
+ */
+const UNREACHABLE_CATEGORIES: ModbusErrorCategory[] = [
+	ModbusErrorCategory.Timeout,
+	ModbusErrorCategory.ConnectionRefused,
+	ModbusErrorCategory.ConnectionFailed,
+	ModbusErrorCategory.GatewayPathUnavailable,
+	ModbusErrorCategory.GatewayTargetFailed,
+];
+
+/**
+ * Whether an error means the device is unreachable (offline, or offline behind the gateway)
+ * rather than rejecting the specific request
+ */
+export function isDeviceUnreachable(errorInfo?: ModbusErrorInfo): boolean {
+	return errorInfo !== undefined && UNREACHABLE_CATEGORIES.includes(errorInfo.category);
+}
+
+/**
+ * Classify an error thrown by modbus-serial or the TCP socket
+ * Note: modbus-serial timeout errors are not Error instances, so fields are read structurally
+ */
+export function classifyModbusError(error: unknown): Omit<ModbusErrorInfo, 'attempts' | 'elapsedMs'> {
+	const details = (error ?? {}) as { message?: string; modbusCode?: number; errno?: string | number; code?: string };
+	const message = details.message || 'Unknown Modbus error';
+	// modbus-serial sets errno to a code string, Node socket errors carry it in code
+	const errno = typeof details.errno === 'string' ? details.errno : details.code;
+
+	let category = ModbusErrorCategory.Unknown;
+	if (typeof details.modbusCode === 'number') {
+		category = EXCEPTION_CATEGORIES[details.modbusCode] ?? ModbusErrorCategory.Unknown;
+	} else if (errno === 'ETIMEDOUT' || /timed out/i.test(message)) {
+		category = ModbusErrorCategory.Timeout;
+	} else if (message === 'Port Not Open' || ['ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'].includes(errno ?? '')) {
+		category = ModbusErrorCategory.ConnectionFailed;
+	} else if (errno === 'ECONNREFUSED') {
+		category = ModbusErrorCategory.ConnectionRefused;
+	} else if (/CRC error/i.test(message)) {
+		category = ModbusErrorCategory.CrcError;
+	}
+
+	return {
+		category,
+		...(typeof details.modbusCode === 'number' && { exceptionCode: details.modbusCode }),
+		message,
+		transient: !NON_TRANSIENT_CATEGORIES.includes(category),
+	};
+}
+
+/**
+ * Error text of a failed result including its category, e.g.
+ * "Failed after 1 attempt: Modbus exception 2: ... [illegalAddress, exception 0x02]"
+ */
+export function describeModbusError(result: { error?: string; errorInfo?: ModbusErrorInfo }): string {
+	const error = result.error || 'Unknown Modbus error';
+	if (!result.errorInfo) {
+		return error;
+	}
+	const { category, exceptionCode } = result.errorInfo;
+	const code = exceptionCode !== undefined ? `, exception 0x${exceptionCode.toString(16).padStart(2, '0').toUpperCase()}` : '';
+	return `${error} [${category}${code}]`;
 }
 
 /**
@@ -71,21 +338,353 @@ export function toSignedInt16(value: number): number {
 	return value >= 0x8000 ? value - 0x10000 : value;
 }
 
+/**
+ * Convert signed 16-bit integer to its unsigned register representation
+ */
+export function toUnsignedInt16(value: number): number {
+	return value & 0xFFFF;
+}
+
+/**
+ * Split 32-bit unsigned value into two registers (LITTLE-ENDIAN, inverse of combineU32RegistersLE)
+ */
+export function encodeU32RegistersLE(value: number): [number, number] {
+	const unsigned = value >>> 0;
+	return [(unsigned >>> 16) & 0xFFFF, unsigned & 0xFFFF];
+}
+
+/**
+ * Split 32-bit signed value into two registers (LITTLE-ENDIAN, inverse of combineI32RegistersLE)
+ */
+export function encodeI32RegistersLE(value: number): [number, number] {
+	return encodeU32RegistersLE(value | 0);
+}
+
+/**
+ * Decode arbitrary registers with the given data type, gain and word order
+ * Counts spanning several values (e.g. 4 registers as U32) decode to an array.
+ * BITFIELD decodes to the list of set bit positions (register n covers bits 16n-16n+15).
+ */
+export function decodeRawRegisters(registers: number[], options: RawDecodeOptions): number | number[] | string {
+	const gain = options.gain || 1;
+
+	if (options.dataType === 'STR') {
+		return decodeStringRegisters(registers, registers.length * 2);
+	}
+
+	if (options.dataType === 'BITFIELD') {
+		const bits: number[] = [];
+		registers.forEach((register, index) => {
+			for (let bit = 0; bit < 16; bit++) {
+				if (register & (1 << bit)) bits.push(index * 16 + bit);
+			}
+		});
+		return bits;
+	}
+
+	const length = RAW_TYPE_LENGTHS[options.dataType];
+	const values: number[] = [];
+
+	for (let offset = 0; offset + length <= registers.length; offset += length) {
+		let words = registers.slice(offset, offset + length);
+		if (options.wordOrder === 'lowFirst') {
+			words = words.reverse();
+		}
+
+		let raw: number;
+		switch (options.dataType) {
+			case 'I16': raw = toSignedInt16(words[0]); break;
+			case 'U32': raw = combineU32RegistersLE(words[0], words[1]) >>> 0; break;
+			case 'I32': raw = combineI32RegistersLE(words[0], words[1]); break;
+			case 'U64': raw = combineU64RegistersLE(words[0], words[1], words[2], words[3]); break;
+			default: raw = words[0];
+		}
+
+		values.push(raw / gain);
+	}
+
+	return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Check whether [start, end) overlaps any of the given register ranges
+ */
+function overlapsRanges(start: number, end: number, ranges: RegisterRange[]): boolean {
+	return ranges.some(range => start < range.address + range.count && range.address < end);
+}
+
+/**
+ * Merge the requested register ranges into the fewest contiguous read blocks
+ * Ranges are sorted, overlapping ranges are merged, and neighbouring ranges are
+ * coalesced when the hole between them is small, the block stays within the
+ * request size limit and no known gap is crossed
+ */
+export function planRegisterBlocks(ranges: RegisterRange[], options: ReadPlanOptions = {}): RegisterRange[] {
+	const maxBlockSize = Math.min(options.maxBlockSize ?? MAX_REGISTERS_PER_READ, MAX_REGISTERS_PER_READ);
+	const maxGap = options.maxGap ?? DEFAULT_MAX_REGISTER_GAP;
+	const gaps = options.gaps || [];
+
+	// Split oversized ranges so every range fits in a single request
+	const sorted: RegisterRange[] = [];
+	for (const range of ranges) {
+		for (let offset = 0; offset < range.count; offset += maxBlockSize) {
+			sorted.push({
+				address: range.address + offset,
+				count: Math.min(maxBlockSize, range.count - offset)
+			});
+		}
+	}
+	sorted.sort((a, b) => a.address - b.address || b.count - a.count);
+
+	const blocks: RegisterRange[] = [];
+	let current: { start: number, end: number } | null = null;
+
+	for (const range of sorted) {
+		const rangeEnd = range.address + range.count;
+
+		if (current) {
+			const mergedEnd = Math.max(current.end, rangeEnd);
+			const canMerge = range.address <= current.end + maxGap &&
+				mergedEnd - current.start <= maxBlockSize &&
+				!overlapsRanges(current.end, range.address, gaps);
+
+			if (canMerge) {
+				current.end = mergedEnd;
+				continue;
+			}
+
+			blocks.push({ address: current.start, count: current.end - current.start });
+		}
+
+		current = { start: range.address, end: rangeEnd };
+	}
+
+	if (current) {
+		blocks.push({ address: current.start, count: current.end - current.start });
+	}
+
+	return blocks;
+}
+
+/**
+ * Register values collected by a planned read, keyed by register address
+ * Typed getters return null when a register was not read successfully
+ */
+export class RegisterSnapshot {
+	private values = new Map<number, number>();
+	private failures: Array<RegisterRange & { errorInfo?: ModbusErrorInfo }> = [];
+
+	/**
+	 * Store a block of register values starting at the given address
+	 */
+	set(address: number, registers: number[]): void {
+		registers.forEach((value, index) => this.values.set(address + index, value));
+	}
+
+	/**
+	 * Record a range that could not be read
+	 */
+	recordFailure(range: RegisterRange, errorInfo?: ModbusErrorInfo): void {
+		this.failures.push({ ...range, ...(errorInfo && { errorInfo }) });
+	}
+
+	/**
+	 * Ranges that could not be read, with the error of each
+	 */
+	getFailures(): Array<RegisterRange & { errorInfo?: ModbusErrorInfo }> {
+		return [...this.failures];
+	}
+
+	/**
+	 * Check if no register was read at all
+	 */
+	isEmpty(): boolean {
+		return this.values.size === 0;
+	}
+
+	/**
+	 * Check if all registers of a range are available
+	 */
+	has(address: number, count: number = 1): boolean {
+		for (let i = 0; i < count; i++) {
+			if (!this.values.has(address + i)) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Get raw register values for a range
+	 */
+	getRegisters(address: number, count: number): number[] | null {
+		if (!this.has(address, count)) {
+			return null;
+		}
+		return Array.from({ length: count }, (_, i) => this.values.get(address + i)!);
+	}
+
+	getU16(address: number): number | null {
+		return this.has(address) ? this.values.get(address)! : null;
+	}
+
+	getI16(address: number): number | null {
+		const value = this.getU16(address);
+		return value === null ? null : toSignedInt16(value);
+	}
+
+	getU32(address: number): number | null {
+		const registers = this.getRegisters(address, 2);
+		return registers ? combineU32RegistersLE(registers[0], registers[1]) >>> 0 : null;
+	}
+
+	getI32(address: number): number | null {
+		const registers = this.getRegisters(address, 2);
+		return registers ? combineI32RegistersLE(registers[0], registers[1]) : null;
+	}
+
+	getString(address: number, count: number, maxLength?: number): string | null {
+		const registers = this.getRegisters(address, count);
+		return registers ? decodeStringRegisters(registers, maxLength) : null;
+	}
+}
+
+/**
+ * A Modbus TCP socket and its request queue
+ * One connection can be shared by several HuaweiModbusClient instances
+ * (see connection-pool.ts); each client keeps its own unit ID, timeout and retries.
+ */
+export class ModbusConnection {
+	readonly client: ModbusRTU = new ModbusRTU();
+	readonly transport: ModbusTransport;
+	private connecting?: Promise<boolean>;
+	private lastError: unknown;
+	private activeRequests: number = 0;
+	private pendingRequests: Array<{ limit: number; start: () => void }> = [];
+
+	constructor(private endpoint: Pick<ModbusConnectionConfig, 'host' | 'port' | 'transport' | 'serial'>) {
+		this.transport = endpoint.transport ?? 'tcp';
+	}
+
+	get isOpen(): boolean {
+		return this.client.isOpen;
+	}
+
+	/**
+	 * Only Modbus TCP matches responses to requests (transaction ID);
+	 * RTU framing allows a single request on the line at a time
+	 */
+	get supportsPipelining(): boolean {
+		return this.transport === 'tcp';
+	}
+
+	/**
+	 * Error of the last failed connection attempt
+	 */
+	get lastConnectError(): unknown {
+		return this.lastError;
+	}
+
+	/**
+	 * Number of requests in flight or waiting for a slot
+	 */
+	get pendingRequestCount(): number {
+		return this.activeRequests + this.pendingRequests.length;
+	}
+
+	/**
+	 * Open the link (or reopen it after a drop)
+	 * Concurrent callers share a single connection attempt
+	 */
+	async open(): Promise<boolean> {
+		if (this.isOpen) {
+			return true;
+		}
+		if (!this.connecting) {
+			this.connecting = this.openTransport()
+				.then(() => {
+					this.lastError = undefined;
+					return true;
+				})
+				.catch(error => {
+					this.lastError = error;
+					return false;
+				})
+				.finally(() => {
+					this.connecting = undefined;
+				});
+		}
+		return this.connecting;
+	}
+
+	private async openTransport(): Promise<void> {
+		const { host, port, serial } = this.endpoint;
+
+		switch (this.transport) {
+			case 'rtuOverTcp':
+				return this.client.connectTcpRTUBuffered(host, { port });
+			case 'serial':
+				if (!serial?.path) {
+					throw new Error('Serial transport requires a serial port path');
+				}
+				return this.client.connectRTUBuffered(serial.path, {
+					baudRate: serial.baudRate,
+					parity: serial.parity ?? 'none',
+					dataBits: serial.dataBits ?? 8,
+					stopBits: serial.stopBits ?? 1,
+				});
+			default:
+				return this.client.connectTCP(host, { port });
+		}
+	}
+
+	close(): void {
+		try {
+			this.client.close(() => {});
+		} catch (error) {
+			// Ignore disconnect errors
+		}
+	}
+
+	/**
+	 * Run a transaction once fewer than `limit` requests are in flight on this connection
+	 * Queued transactions start in order as running ones finish
+	 */
+	async enqueue<T>(limit: number, transaction: () => Promise<T>): Promise<T> {
+		if (this.pendingRequests.length === 0 && this.activeRequests < limit) {
+			this.activeRequests++;
+		} else {
+			await new Promise<void>(start => this.pendingRequests.push({ limit, start }));
+		}
+
+		try {
+			return await transaction();
+		} finally {
+			this.activeRequests--;
+			while (this.pendingRequests.length > 0 && this.activeRequests < this.pendingRequests[0].limit) {
+				this.activeRequests++;
+				this.pendingRequests.shift()!.start();
+			}
+		}
+	}
+}
+
 /**
  * Modbus Client Wrapper with connection management and error handling
  */
 export class HuaweiModbusClient {
-	private client: ModbusRTU;
+	private connection: ModbusConnection;
 	private config: ModbusConnectionConfig;
-	private isConnected: boolean = false;
+	private release?: () => void;
 
-	constructor(config: ModbusConnectionConfig) {
-		this.client = new ModbusRTU();
+	/**
+	 * @param connection Shared connection (default: a dedicated one for this client)
+	 * @param release Called instead of closing the connection on disconnect (pooled connections)
+	 */
+	constructor(config: ModbusConnectionConfig, connection?: ModbusConnection, release?: () => void) {
 		this.config = config;
-		
-		// Set timeout and retry options
-		this.client.setTimeout(config.timeout);
-		this.client.setID(config.unitId);
+		this.connection = connection ?? new ModbusConnection(config);
+		this.release = release;
 	}
 
 	/**
@@ -96,72 +695,99 @@ export class HuaweiModbusClient {
 	}
 
 	/**
-	 * Connect to Modbus TCP device
+	 * Client on the same connection with different settings (e.g. a shorter timeout)
+	 * Disconnecting the derived client leaves the connection to this client
+	 */
+	withConfig(overrides: Partial<ModbusConnectionConfig>): HuaweiModbusClient {
+		return new HuaweiModbusClient({ ...this.config, ...overrides }, this.connection, () => {});
+	}
+
+	/**
+	 * Connect to the device over the configured transport (no-op when already open)
 	 */
 	async connect(): Promise<boolean> {
-		try {
-			await this.client.connectTCP(this.config.host, { port: this.config.port });
-			this.isConnected = true;
-			return true;
-		} catch (error) {
-			this.isConnected = false;
-			return false;
-		}
+		return this.connection.open();
 	}
 
 	/**
 	 * Disconnect from device
+	 * Pooled clients hand the connection back to the pool instead of closing it
 	 */
 	async disconnect(): Promise<void> {
-		try {
-			this.client.close();
-			this.isConnected = false;
-		} catch (error) {
-			// Ignore disconnect errors
+		if (this.release) {
+			const release = this.release;
+			this.release = () => {}; // Release a lease only once
+			release();
+			return;
 		}
+		this.connection.close();
 	}
 
 	/**
 	 * Check if client is connected
 	 */
 	isClientConnected(): boolean {
-		return this.isConnected && this.client.isOpen;
+		return this.connection.isOpen;
 	}
 
 	/**
-	 * Read holding registers with retry logic and proper error handling
+	 * Per-transaction Modbus requests: the unit ID and timeout are part of each request
+	 * instead of shared client state, so concurrent requests cannot interleave them
 	 */
-	async readHoldingRegisters(
-		address: number, 
-		count: number, 
-		unitId?: number
-	): Promise<ModbusReadResult<number[]>> {
-		if (!this.isClientConnected()) {
-			const connected = await this.connect();
-			if (!connected) {
-				return { success: false, error: 'Failed to connect to Modbus device' };
-			}
-		}
+	private requestReadHoldingRegisters(unitId: number, address: number, count: number): Promise<number[]> {
+		return new Promise((resolve, reject) => {
+			this.connection.client.setTimeout(this.config.timeout);
+			this.connection.client.writeFC3(unitId, address, count, (error, result) => error ? reject(error) : resolve(result.data));
+		});
+	}
 
-		// Set unit ID if provided
-		if (unitId !== undefined) {
-			this.client.setID(unitId);
-		}
+	private requestWriteRegister(unitId: number, address: number, value: number): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.connection.client.setTimeout(this.config.timeout);
+			this.connection.client.writeFC6(unitId, address, value, error => error ? reject(error) : resolve());
+		});
+	}
 
-		let lastError: string = '';
+	private requestWriteRegisters(unitId: number, address: number, values: number[]): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.connection.client.setTimeout(this.config.timeout);
+			this.connection.client.writeFC16(unitId, address, values, error => error ? reject(error) : resolve());
+		});
+	}
+
+	/**
+	 * Run a Modbus request with connection check, request queueing and retry logic
+	 * Shared by reads and writes so both behave identically on failure.
+	 * Each attempt reopens a dropped connection and is queued separately,
+	 * so backoff delays do not hold a queue slot.
+	 * Exceptions the device will always repeat (illegal function/address/value) are not retried.
+	 */
+	private async executeWithRetry<T>(
+		unitId: number | undefined,
+		request: (unitId: number) => Promise<T>
+	): Promise<ModbusReadResult<T>> {
+		const startTime = Date.now();
+		const targetUnitId = unitId ?? this.config.unitId;
+		const maxConcurrent = this.connection.supportsPipelining
+			? Math.max(1, this.config.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS)
+			: 1;
+
+		let lastError = classifyModbusError(undefined);
+		let attempts = 0;
 		
 		for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+			attempts++;
 			try {
-				const result = await this.client.readHoldingRegisters(address, count);
-				
-				// Reset unit ID back to default if it was changed
-				if (unitId !== undefined) {
-					this.client.setID(this.config.unitId);
+				if (!(await this.connection.open())) {
+					throw this.connection.lastConnectError ?? new Error('Failed to connect to Modbus device');
 				}
-				
-				return { success: true, data: result.data };
+				const result = await this.connection.enqueue(maxConcurrent, () => request(targetUnitId));
+				return { success: true, data: result };
 			} catch (error) {
-				lastError = error instanceof Error ? error.message : 'Unknown Modbus error';
+				lastError = classifyModbusError(error);
+				if (!lastError.transient) {
+					break;
+				}
 				
 				// Wait before retry (exponential backoff)
 				if (attempt < this.config.retries) {
@@ -170,12 +796,26 @@ export class HuaweiModbusClient {
 			}
 		}
 
-		// Reset unit ID back to default if it was changed
-		if (unitId !== undefined) {
-			this.client.setID(this.config.unitId);
-		}
+		return {
+			success: false,
+			error: `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${lastError.message}`,
+			errorInfo: { ...lastError, attempts, elapsedMs: Date.now() - startTime },
+		};
+	}
 
-		return { success: false, error: `Failed after ${this.config.retries + 1} attempts: ${lastError}` };
+	/**
+	 * Read holding registers with retry logic and proper error handling
+	 */
+	async readHoldingRegisters(
+		address: number, 
+		count: number, 
+		unitId?: number
+	): Promise<ModbusReadResult<number[]>> {
+		const result = await this.executeWithRetry(unitId, id => this.requestReadHoldingRegisters(id, address, count));
+		if (!result.success || !result.data) {
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
+		}
+		return { success: true, data: result.data };
 	}
 
 	/**
@@ -184,7 +824,7 @@ export class HuaweiModbusClient {
 	async readU16(address: number, unitId?: number): Promise<ModbusReadResult<number>> {
 		const result = await this.readHoldingRegisters(address, 1, unitId);
 		if (!result.success || !result.data || result.data.length === 0) {
-			return { success: false, error: result.error };
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
 		}
 		return { success: true, data: result.data[0] };
 	}
@@ -206,9 +846,9 @@ export class HuaweiModbusClient {
 	async readU32(address: number, unitId?: number): Promise<ModbusReadResult<number>> {
 		const result = await this.readHoldingRegisters(address, 2, unitId);
 		if (!result.success || !result.data || result.data.length < 2) {
-			return { success: false, error: result.error };
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
 		}
-		return { success: true, data: combineU32RegistersLE(result.data[0], result.data[1]) };
+		return { success: true, data: combineU32RegistersLE(result.data[0], result.data[1]) >>> 0 };
 	}
 
 	/**
@@ -217,7 +857,7 @@ export class HuaweiModbusClient {
 	async readI32(address: number, unitId?: number): Promise<ModbusReadResult<number>> {
 		const result = await this.readHoldingRegisters(address, 2, unitId);
 		if (!result.success || !result.data || result.data.length < 2) {
-			return { success: false, error: result.error };
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
 		}
 		return { success: true, data: combineI32RegistersLE(result.data[0], result.data[1]) };
 	}
@@ -228,11 +868,210 @@ export class HuaweiModbusClient {
 	async readString(address: number, count: number, maxLength?: number, unitId?: number): Promise<ModbusReadResult<string>> {
 		const result = await this.readHoldingRegisters(address, count, unitId);
 		if (!result.success || !result.data) {
-			return { success: false, error: result.error };
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
 		}
 		return { success: true, data: decodeStringRegisters(result.data, maxLength) };
 	}
 
+	/**
+	 * Read a set of register ranges using the fewest possible requests
+	 * Ranges are coalesced into blocks by planRegisterBlocks and read one block at a time.
+	 * If a merged block fails (e.g. an unmapped register inside it), the ranges it
+	 * covered are retried individually so one bad register does not drop the rest.
+	 * Ranges that still fail are recorded on the snapshot with their error; once the
+	 * device turns out to be unreachable the remaining blocks are not attempted.
+	 */
+	async readRegisterRanges(
+		ranges: RegisterRange[],
+		unitId?: number,
+		options?: ReadPlanOptions
+	): Promise<RegisterSnapshot> {
+		const snapshot = new RegisterSnapshot();
+		const blocks = planRegisterBlocks(ranges, options);
+
+		for (const [index, block] of blocks.entries()) {
+			const result = await this.readHoldingRegisters(block.address, block.count, unitId);
+			if (result.success && result.data) {
+				snapshot.set(block.address, result.data);
+				continue;
+			}
+
+			const covered = ranges.filter(range =>
+				range.address >= block.address &&
+				range.address + range.count <= block.address + block.count
+			);
+
+			// Per-range reads only help when the device rejected part of the block
+			if (isDeviceUnreachable(result.errorInfo)) {
+				// Remaining blocks would fail the same way after their own retries
+				blocks.slice(index).forEach(remaining => snapshot.recordFailure(remaining, result.errorInfo));
+				break;
+			}
+			if (covered.length <= 1) {
+				snapshot.recordFailure(block, result.errorInfo);
+				continue;
+			}
+
+			for (const range of covered) {
+				if (snapshot.has(range.address, range.count)) {
+					continue;
+				}
+				const rangeResult = await this.readHoldingRegisters(range.address, range.count, unitId);
+				if (rangeResult.success && rangeResult.data) {
+					snapshot.set(range.address, rangeResult.data);
+				} else {
+					snapshot.recordFailure(range, rangeResult.errorInfo);
+				}
+			}
+		}
+
+		return snapshot;
+	}
+
+	// ============================================================================
+	// WRITE OPERATIONS
+	// ============================================================================
+
+	/**
+	 * Write a single holding register (FC06)
+	 * Values are raw register integers; apply the gain before calling
+	 */
+	async writeRegister(
+		address: number,
+		value: number,
+		unitId?: number,
+		options: WriteOptions = {}
+	): Promise<ModbusWriteResult> {
+		const result = await this.executeWithRetry(unitId, id => this.requestWriteRegister(id, address, toUnsignedInt16(value)));
+		if (!result.success) {
+			return { success: false, address, values: [toUnsignedInt16(value)], error: result.error, errorInfo: result.errorInfo };
+		}
+		return this.completeWrite(address, [toUnsignedInt16(value)], unitId, options);
+	}
+
+	/**
+	 * Write multiple consecutive holding registers (FC16)
+	 */
+	async writeRegisters(
+		address: number,
+		values: number[],
+		unitId?: number,
+		options: WriteOptions = {}
+	): Promise<ModbusWriteResult> {
+		const registers = values.map(toUnsignedInt16);
+		const result = await this.executeWithRetry(unitId, id => this.requestWriteRegisters(id, address, registers));
+		if (!result.success) {
+			return { success: false, address, values: registers, error: result.error, errorInfo: result.errorInfo };
+		}
+		return this.completeWrite(address, registers, unitId, options);
+	}
+
+	/**
+	 * Optionally read the written registers back and confirm the device accepted them
+	 */
+	private async completeWrite(
+		address: number,
+		values: number[],
+		unitId: number | undefined,
+		options: WriteOptions
+	): Promise<ModbusWriteResult> {
+		if (!options.verify) {
+			return { success: true, address, values };
+		}
+
+		// Give the device time to apply the value before reading it back
+		if (options.verifyDelay) {
+			await new Promise(resolve => setTimeout(resolve, options.verifyDelay));
+		}
+
+		const readBack = await this.readHoldingRegisters(address, values.length, unitId);
+		if (!readBack.success || !readBack.data) {
+			return {
+				success: false,
+				address,
+				values,
+				verified: false,
+				error: `Write succeeded but read-back failed: ${readBack.error}`,
+				errorInfo: readBack.errorInfo,
+			};
+		}
+
+		const verified = values.every((value, index) => readBack.data![index] === value);
+		return {
+			success: verified,
+			address,
+			values,
+			readBack: readBack.data,
+			verified,
+			...(!verified && { error: `Read-back mismatch: wrote [${values.join(', ')}], device reports [${readBack.data.join(', ')}]` }),
+		};
+	}
+
+	/**
+	 * Write single U16 register
+	 */
+	async writeU16(address: number, value: number, unitId?: number, options?: WriteOptions): Promise<ModbusWriteResult> {
+		return this.writeRegister(address, value, unitId, options);
+	}
+
+	/**
+	 * Write single I16 register (signed)
+	 */
+	async writeI16(address: number, value: number, unitId?: number, options?: WriteOptions): Promise<ModbusWriteResult> {
+		return this.writeRegister(address, value, unitId, options);
+	}
+
+	/**
+	 * Write U32 register (2 consecutive registers, little-endian)
+	 */
+	async writeU32(address: number, value: number, unitId?: number, options?: WriteOptions): Promise<ModbusWriteResult> {
+		return this.writeRegisters(address, encodeU32RegistersLE(value), unitId, options);
+	}
+
+	/**
+	 * Write I32 register (2 consecutive registers, little-endian, signed)
+	 */
+	async writeI32(address: number, value: number, unitId?: number, options?: WriteOptions): Promise<ModbusWriteResult> {
+		return this.writeRegisters(address, encodeI32RegistersLE(value), unitId, options);
+	}
+
+	/**
+	 * Read arbitrary registers and decode them with the given type, gain and word order
+	 * Used for registers Huawei has published but the register map does not cover yet
+	 */
+	async readRawRegisters(
+		address: number,
+		count: number,
+		unitId: number,
+		options: RawDecodeOptions
+	): Promise<ModbusReadResult<RawRegisterRead>> {
+		if (count < 1 || count > MAX_REGISTERS_PER_READ) {
+			return { success: false, error: `Register count must be between 1 and ${MAX_REGISTERS_PER_READ}` };
+		}
+		if (count < RAW_TYPE_LENGTHS[options.dataType]) {
+			return { success: false, error: `${options.dataType} needs at least ${RAW_TYPE_LENGTHS[options.dataType]} registers` };
+		}
+
+		const result = await this.readHoldingRegisters(address, count, unitId);
+		if (!result.success || !result.data) {
+			return { success: false, error: result.error, errorInfo: result.errorInfo };
+		}
+
+		return {
+			success: true,
+			data: {
+				address,
+				count,
+				unitId,
+				dataType: options.dataType,
+				wordOrder: options.wordOrder || 'highFirst',
+				gain: options.gain || 1,
+				registers: result.data,
+				value: decodeRawRegisters(result.data, options),
+			},
+		};
+	}
+
 	/**
 	 * Calculate inverter base address for remapped registers
 	 * Formula: 51000 + (25 × (Device Address - 1))
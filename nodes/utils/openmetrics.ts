@@ -0,0 +1,220 @@
+/**
+ * OpenMetrics Exposition
+ *
+ * Renders node output as OpenMetrics text for Prometheus: gauges for power,
+ * voltage, current and temperature fields, counters for the lifetime energy
+ * and CO2 totals. Metric names and help text come from the register map (the
+ * descriptive field name, unit and description), whatever the field naming.
+ */
+
+import { FieldDefinition, fieldName, uniqueRegisters } from './register-map';
+import { SMARTLOGGER_REGISTERS } from './smartlogger-registers';
+import {
+	PV_STRINGS_FIELD,
+	PV_STRING_FIELDS,
+	SUN2000_DIRECT_TELEMETRY_REGISTERS,
+	SUN2000_REGISTERS,
+	SUN2000_REMAPPED_REGISTERS,
+} from './sun2000-registers';
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type MetricType = 'gauge' | 'counter';
+
+export type MetricLabels = Record<string, string | number | undefined>;
+
+export interface MetricSample {
+	labels: MetricLabels;
+	value: number;
+}
+
+export interface MetricFamily {
+	name: string;                // Family name (counter samples add _total)
+	type: MetricType;
+	help: string;
+	unit?: string;               // OpenMetrics unit, also the name suffix
+	samples: MetricSample[];
+}
+
+/**
+ * Register units exposed as gauges, with their OpenMetrics unit name
+ */
+const GAUGE_UNITS: Record<string, string> = {
+	'kW': 'kilowatts',
+	'kvar': 'kilovolt_amperes_reactive',
+	'kVA': 'kilovolt_amperes',
+	'W': 'watts',
+	'V': 'volts',
+	'A': 'amperes',
+	'°C': 'celsius',
+};
+
+/**
+ * Lifetime totals exposed as counters, with their OpenMetrics unit name
+ */
+const COUNTER_FIELDS: Record<string, string> = {
+	totalEnergyYield: 'kilowatt_hours',
+	totalEnergy: 'kilowatt_hours',
+	co2Reduction: 'kilograms',
+};
+
+/**
+ * PV string values exposed per string (the string number is a label)
+ */
+const PV_STRING_METRIC_FIELDS: FieldDefinition[] = [PV_STRING_FIELDS.voltage, PV_STRING_FIELDS.current, PV_STRING_FIELDS.power];
+
+const SUN2000_METRIC_DEFINITIONS = uniqueRegisters([
+	...SUN2000_REMAPPED_REGISTERS,
+	...SUN2000_DIRECT_TELEMETRY_REGISTERS,
+	...SUN2000_REGISTERS,
+]);
+
+function toSnakeCase(value: string): string {
+	return value
+		.replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+		.replace(/[^a-zA-Z0-9_]/g, '_')
+		.toLowerCase();
+}
+
+/**
+ * Escape label values and help text (backslash, double quote, line feed)
+ */
+function escapeText(value: string): string {
+	return value.replace(/[\\"\n]/g, match => (match === '\n' ? '\\n' : `\\${match}`));
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const pairs = Object.entries(labels)
+		.filter(([, value]) => value !== undefined && value !== '')
+		.map(([key, value]) => `${key}="${escapeText(String(value))}"`);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) {
+		return 'NaN';
+	}
+	if (!Number.isFinite(value)) {
+		return value > 0 ? '+Inf' : '-Inf';
+	}
+	return String(value);
+}
+
+/**
+ * Collects samples from SUN2000 items and SmartLogger data into metric families
+ * and renders them as one OpenMetrics document
+ */
+export class OpenMetricsBuilder {
+	private families = new Map<string, MetricFamily>();
+
+	constructor(private useIEC: boolean = false) {}
+
+	/**
+	 * Add a sample, creating its family on first use
+	 */
+	addSample(family: Omit<MetricFamily, 'samples'>, labels: MetricLabels, value: number): void {
+		let existing = this.families.get(family.name);
+		if (!existing) {
+			existing = { ...family, samples: [] };
+			this.families.set(family.name, existing);
+		}
+		existing.samples.push({ labels, value });
+	}
+
+	/**
+	 * Add the gauges and counters of a nested SUN2000 item (see createNestedInverterData)
+	 * Every item also sets sun2000_up: 0 for error items, 1 otherwise
+	 */
+	addInverterItem(item: Record<string, any>, site?: string): void {
+		const labels: MetricLabels = {
+			site,
+			unitId: item.unitId,
+			deviceName: item.deviceName,
+			model: item.model,
+		};
+
+		this.addSample(
+			{ name: 'sun2000_up', type: 'gauge', help: 'Whether the inverter answered the read' },
+			labels,
+			item.error ? 0 : 1,
+		);
+
+		if (item.error) {
+			return;
+		}
+
+		const values = { ...item.telemetry, ...item.battery, ...item.meter };
+		this.addFields('sun2000', SUN2000_METRIC_DEFINITIONS, values, labels);
+
+		const pvStrings = item.telemetry?.[fieldName(PV_STRINGS_FIELD, this.useIEC)];
+		if (Array.isArray(pvStrings)) {
+			for (const pvString of pvStrings) {
+				const stringLabels = { ...labels, string: pvString[fieldName(PV_STRING_FIELDS.stringNumber, this.useIEC)] };
+				this.addFields('sun2000_pv_string', PV_STRING_METRIC_FIELDS, pvString, stringLabels);
+			}
+		}
+	}
+
+	/**
+	 * Add the gauges and counters of SmartLogger Read Data categories (power, environmental)
+	 */
+	addSmartLoggerData(data: Record<string, any>, labels: MetricLabels): void {
+		const values = { ...data.power, ...data.environmental };
+		this.addFields('smartlogger', SMARTLOGGER_REGISTERS, values, labels);
+	}
+
+	/**
+	 * OpenMetrics text of all families, terminated by # EOF
+	 */
+	render(): string {
+		const lines: string[] = [];
+
+		for (const family of this.families.values()) {
+			lines.push(`# TYPE ${family.name} ${family.type}`);
+			if (family.unit) {
+				lines.push(`# UNIT ${family.name} ${family.unit}`);
+			}
+			lines.push(`# HELP ${family.name} ${escapeText(family.help)}`);
+
+			const sampleName = family.type === 'counter' ? `${family.name}_total` : family.name;
+			for (const sample of family.samples) {
+				lines.push(`${sampleName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+			}
+		}
+
+		lines.push('# EOF');
+		return `${lines.join('\n')}\n`;
+	}
+
+	/**
+	 * Add one sample per numeric field that is a gauge unit or a counter
+	 */
+	private addFields(prefix: string, fields: FieldDefinition[], values: Record<string, unknown>, labels: MetricLabels): void {
+		for (const field of fields) {
+			// Values are looked up under the selected naming; metric names always use the
+			// descriptive name so queries keep working when the naming setting changes
+			const value = values[fieldName(field, this.useIEC)];
+			if (typeof value !== 'number') {
+				continue;
+			}
+
+			const counterUnit = COUNTER_FIELDS[field.name];
+			const unit = counterUnit ?? (field.unit ? GAUGE_UNITS[field.unit] : undefined);
+			if (!unit) {
+				continue;
+			}
+
+			this.addSample(
+				{
+					name: `${prefix}_${toSnakeCase(field.name)}_${unit}`,
+					type: counterUnit ? 'counter' : 'gauge',
+					help: field.description,
+					unit,
+				},
+				labels,
+				value,
+			);
+		}
+	}
+}
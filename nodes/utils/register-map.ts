@@ -0,0 +1,303 @@
+/**
+ * Declarative Register Map
+ *
+ * Typed register definitions that drive reading, decoding and field naming
+ * generically. Adding a register is a data change in the device tables
+ * (sun2000-registers.ts, smartlogger-registers.ts) rather than new code.
+ */
+
+import {
+	HuaweiModbusClient,
+	ModbusWriteResult,
+	ReadPlanOptions,
+	RegisterRange,
+	RegisterSnapshot,
+	WriteOptions,
+	encodeU32RegistersLE,
+	toUnsignedInt16,
+} from './modbus-utils';
+
+export type RegisterType = 'U16' | 'I16' | 'U32' | 'I32' | 'STR' | 'BITFIELD' | 'ENUM';
+
+/**
+ * Output group of a field in nested SUN2000 items
+ */
+export type FieldGroup = 'identification' | 'telemetry' | 'status' | 'battery' | 'meter';
+
+export interface RegisterDefinition {
+	name: string;                // Descriptive field name (also the lookup key)
+	iecName?: string;            // IEC 61850 field name (defaults to name)
+	address: number;             // Start register
+	length: number;              // Number of registers
+	type: RegisterType;
+	gain?: number;               // Raw value is divided by gain (default 1)
+	unit?: string;               // Engineering unit after gain is applied
+	description: string;         // Human readable description
+	category: string;            // Data category the register is read with
+	group?: FieldGroup;          // Output group in nested items (omitted = not emitted)
+	enumValues?: Record<number, string>; // ENUM value texts
+	transform?: (value: number) => string | number | boolean; // Custom decoding after gain
+}
+
+/**
+ * Naming and metadata of an output field that is not a register of its own
+ * (e.g. the entries of derived lists such as PV strings)
+ */
+export type FieldDefinition = Pick<RegisterDefinition, 'name' | 'iecName' | 'unit' | 'description'>;
+
+export type DecodedValue = string | number | boolean;
+
+export interface RegisterWriteResult extends ModbusWriteResult {
+	field: string;               // Descriptive name of the written register
+	requestedValue: number;      // Value in engineering units (before gain)
+	readBackValue?: DecodedValue; // Read-back value in engineering units
+}
+
+/**
+ * Valid raw value range for writable numeric types
+ */
+const TYPE_RANGES: Partial<Record<RegisterType, [number, number]>> = {
+	U16: [0, 0xFFFF],
+	I16: [-0x8000, 0x7FFF],
+	U32: [0, 0xFFFFFFFF],
+	I32: [-0x80000000, 0x7FFFFFFF],
+	ENUM: [0, 0xFFFF],
+	BITFIELD: [0, 0xFFFF],
+};
+
+/**
+ * Number of registers occupied by each type (STR uses the definition length)
+ */
+const TYPE_LENGTHS: Record<RegisterType, number> = {
+	U16: 1,
+	I16: 1,
+	U32: 2,
+	I32: 2,
+	STR: 0,
+	BITFIELD: 1,
+	ENUM: 1,
+};
+
+/**
+ * Create a register definition, deriving the length from the type
+ */
+export function defineRegister(
+	definition: Omit<RegisterDefinition, 'length'> & { length?: number },
+): RegisterDefinition {
+	return {
+		...definition,
+		length: definition.length ?? TYPE_LENGTHS[definition.type],
+	};
+}
+
+/**
+ * Output field name for the selected naming convention
+ */
+export function fieldName(definition: Pick<RegisterDefinition, 'name' | 'iecName'>, useIEC?: boolean): string {
+	return useIEC && definition.iecName ? definition.iecName : definition.name;
+}
+
+/**
+ * Find a definition by its descriptive name
+ */
+export function findRegister(definitions: RegisterDefinition[], name: string): RegisterDefinition | undefined {
+	return definitions.find(definition => definition.name === name);
+}
+
+/**
+ * Whether a definition decodes to a plain number
+ * Strings, bitfields, enums and transformed values (texts, booleans) do not
+ */
+export function isNumericRegister(definition: RegisterDefinition): boolean {
+	return !['STR', 'BITFIELD', 'ENUM'].includes(definition.type) && !definition.enumValues && !definition.transform;
+}
+
+/**
+ * Select the definitions belonging to any of the given categories
+ */
+export function registersForCategories(definitions: RegisterDefinition[], categories: string[]): RegisterDefinition[] {
+	return definitions.filter(definition => categories.includes(definition.category));
+}
+
+/**
+ * All output field names (both conventions) of the definitions in a group
+ */
+export function fieldNamesForGroup(definitions: RegisterDefinition[], group: FieldGroup): string[] {
+	const names = new Set<string>();
+	for (const definition of definitions) {
+		if (definition.group === group) {
+			names.add(definition.name);
+			names.add(fieldName(definition, true));
+		}
+	}
+	return [...names];
+}
+
+/**
+ * One definition per descriptive name; the first one wins
+ * (e.g. remapped and direct telemetry define the same fields)
+ */
+export function uniqueRegisters(definitions: RegisterDefinition[]): RegisterDefinition[] {
+	const seen = new Set<string>();
+	return definitions.filter(definition => !seen.has(definition.name) && seen.add(definition.name));
+}
+
+/**
+ * Shift relative definitions (e.g. remapped offsets) to absolute addresses
+ */
+export function offsetRegisters(definitions: RegisterDefinition[], baseAddress: number): RegisterDefinition[] {
+	return definitions.map(definition => ({ ...definition, address: baseAddress + definition.address }));
+}
+
+/**
+ * Register ranges occupied by a set of definitions (input for the read planner)
+ */
+export function toRegisterRanges(definitions: RegisterDefinition[]): RegisterRange[] {
+	return definitions.map(definition => ({ address: definition.address, count: definition.length }));
+}
+
+/**
+ * Decode a single definition from a register snapshot
+ * Returns null when the registers were not read successfully
+ */
+export function decodeRegister(definition: RegisterDefinition, snapshot: RegisterSnapshot): DecodedValue | null {
+	let raw: number | null;
+
+	switch (definition.type) {
+		case 'STR':
+			return snapshot.getString(definition.address, definition.length, definition.length * 2);
+		case 'I16':
+			raw = snapshot.getI16(definition.address);
+			break;
+		case 'U32':
+			raw = snapshot.getU32(definition.address);
+			break;
+		case 'I32':
+			raw = snapshot.getI32(definition.address);
+			break;
+		default:
+			raw = snapshot.getU16(definition.address);
+	}
+
+	if (raw === null) {
+		return null;
+	}
+
+	if (definition.enumValues) {
+		return definition.enumValues[raw] ?? `Unknown (${raw})`;
+	}
+
+	const value = definition.gain ? raw / definition.gain : raw;
+	return definition.transform ? definition.transform(value) : value;
+}
+
+/**
+ * Decode all definitions into an object keyed by output field name
+ * Fields that could not be read are omitted; empty strings are skipped
+ */
+export function decodeRegisters(
+	definitions: RegisterDefinition[],
+	snapshot: RegisterSnapshot,
+	useIEC?: boolean,
+): Record<string, DecodedValue> {
+	const result: Record<string, DecodedValue> = {};
+
+	for (const definition of definitions) {
+		const value = decodeRegister(definition, snapshot);
+		if (value !== null && value !== '') {
+			result[fieldName(definition, useIEC)] = value;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Read and decode a set of definitions with the read planner
+ */
+export async function readRegisters(
+	client: HuaweiModbusClient,
+	definitions: RegisterDefinition[],
+	unitId?: number,
+	useIEC?: boolean,
+	options?: ReadPlanOptions,
+): Promise<Record<string, DecodedValue>> {
+	const snapshot = await client.readRegisterRanges(toRegisterRanges(definitions), unitId, options);
+	return decodeRegisters(definitions, snapshot, useIEC);
+}
+
+/**
+ * Encode an engineering value into register words (gain applied, rounded)
+ * Throws when the value does not fit the register type
+ */
+export function encodeRegister(definition: RegisterDefinition, value: number): number[] {
+	const range = TYPE_RANGES[definition.type];
+	if (!range) {
+		throw new Error(`Register ${definition.name} (${definition.type}) cannot be written as a number`);
+	}
+
+	const raw = Math.round(value * (definition.gain || 1));
+	if (!Number.isFinite(raw) || raw < range[0] || raw > range[1]) {
+		throw new Error(`Value ${value} is out of range for ${definition.name} (${definition.type})`);
+	}
+
+	return definition.length === 2 ? encodeU32RegistersLE(raw) : [toUnsignedInt16(raw)];
+}
+
+/**
+ * Encode and write an engineering value to a register definition
+ * With verify enabled the read-back is decoded back into engineering units
+ */
+export async function writeRegisterValue(
+	client: HuaweiModbusClient,
+	definition: RegisterDefinition,
+	value: number,
+	unitId?: number,
+	options: WriteOptions = {},
+): Promise<RegisterWriteResult> {
+	let registers: number[];
+	try {
+		registers = encodeRegister(definition, value);
+	} catch (error) {
+		return {
+			success: false,
+			field: definition.name,
+			address: definition.address,
+			values: [],
+			requestedValue: value,
+			error: (error as Error).message,
+		};
+	}
+
+	return writeEncodedRegisters(client, definition, registers, value, unitId, options);
+}
+
+/**
+ * Write register words that were already encoded (e.g. a multi-register schedule)
+ * requestedValue reports the engineering value the words stand for
+ */
+export async function writeEncodedRegisters(
+	client: HuaweiModbusClient,
+	definition: RegisterDefinition,
+	registers: number[],
+	value: number,
+	unitId?: number,
+	options: WriteOptions = {},
+): Promise<RegisterWriteResult> {
+	const result = registers.length === 1
+		? await client.writeRegister(definition.address, registers[0], unitId, options)
+		: await client.writeRegisters(definition.address, registers, unitId, options);
+
+	const writeResult: RegisterWriteResult = { ...result, field: definition.name, requestedValue: value };
+
+	if (result.readBack) {
+		const snapshot = new RegisterSnapshot();
+		snapshot.set(definition.address, result.readBack);
+		const readBackValue = decodeRegister(definition, snapshot);
+		if (readBackValue !== null) {
+			writeResult.readBackValue = readBackValue;
+		}
+	}
+
+	return writeResult;
+}
@@ -6,9 +6,19 @@
  * - SmartLogger Unit ID: 3 (not 0 as documented)
  * - Little-endian register combination
  * - Proper gain factor applications
+ * Register addresses, types and gains live in smartlogger-registers.ts
  */
 
-import { HuaweiModbusClient, parsePlantStatus, parseConnectionStatus } from './modbus-utils';
+import { AlarmCounts, AlarmDefinition, countAlarmsBySeverity, decodeAlarms } from './alarms';
+import { HuaweiModbusClient, parseConnectionStatus } from './modbus-utils';
+import { DecodedValue, findRegister, readRegisters, registersForCategories } from './register-map';
+import {
+	SMARTLOGGER_ALARMS,
+	SMARTLOGGER_CONTROL_REGISTERS,
+	SMARTLOGGER_METER_REGISTERS,
+	SMARTLOGGER_REGISTERS,
+} from './smartlogger-registers';
+import { GuardedWriteResult, WriteGuard } from './write-safety';
 
 export interface SmartLoggerSystemData {
 	datetime?: number;           // UTC timestamp
@@ -42,8 +52,61 @@ export interface SmartLoggerAlarmData {
 	alarmInfo1?: number;         // 16-bit alarm field 1
 	alarmInfo2?: number;         // 16-bit alarm field 2
 	certificateAlarms?: number;  // Certificate-related alarms
+	alarms?: AlarmDefinition[];  // Active alarms decoded from the three fields
+	alarmCounts?: AlarmCounts;   // Active alarms per severity
+	activeAlarmCount?: number;   // Total number of active alarms
 }
 
+export interface SmartLoggerMeterData {
+	unitId: number;
+	deviceName?: string;
+	phaseAVoltage?: number;      // Phase voltages (V)
+	phaseBVoltage?: number;
+	phaseCVoltage?: number;
+	gridVoltageUAB?: number;     // Line voltages (V)
+	gridVoltageUBC?: number;
+	gridVoltageUCA?: number;
+	phaseACurrent?: number;      // Phase currents (A)
+	phaseBCurrent?: number;
+	phaseCCurrent?: number;
+	activePower?: number;        // Active power, export + / import - (kW)
+	reactivePower?: number;      // Reactive power (kVar)
+	apparentPower?: number;      // Apparent power (kVA)
+	powerFactor?: number;        // Power factor
+	phaseAActivePower?: number;  // Per-phase active power (kW)
+	phaseBActivePower?: number;
+	phaseCActivePower?: number;
+	activeEnergy?: number;       // Total active energy (kWh)
+	reactiveEnergy?: number;     // Total reactive energy (kVarh)
+	exportedEnergy?: number;     // Energy exported to the grid (kWh)
+	importedEnergy?: number;     // Energy imported from the grid (kWh)
+	error?: string;              // Error message if reading failed
+}
+
+export interface PlantControlSetpoints {
+	activePowerKw?: number;      // Plant active power limit (kW)
+	activePowerPercent?: number; // Plant active power limit (%)
+	reactivePowerKvar?: number;  // Plant reactive power setpoint (kVar)
+	powerFactor?: number;        // Plant power factor setpoint
+}
+
+export interface PlantControlResult {
+	success: boolean;            // All writes succeeded (and verified, if enabled)
+	dryRun?: boolean;            // Nothing was written (dry-run mode)
+	writes: GuardedWriteResult[];
+	plantStatus?: string;        // Plant status after the change
+}
+
+/**
+ * Control register written for each plant setpoint (see SMARTLOGGER_CONTROL_REGISTERS)
+ */
+const PLANT_SETPOINT_REGISTERS: Record<keyof PlantControlSetpoints, string> = {
+	activePowerKw: 'plantActivePowerLimit',
+	activePowerPercent: 'plantActivePowerPercent',
+	reactivePowerKvar: 'plantReactivePower',
+	powerFactor: 'plantPowerFactor',
+};
+
 export interface DeviceInfo {
 	unitId: number;
 	deviceName?: string;
@@ -57,342 +120,145 @@ export interface DeviceInfo {
  * Handles all SmartLogger 3000 register operations
  */
 export class SmartLoggerFunctions {
-	constructor(private client: HuaweiModbusClient, private unitId: number = 3) {}
-
-	// ============================================================================
-	// SYSTEM CONTROL REGISTERS (40000-40299)
-	// ============================================================================
+	constructor(
+		private client: HuaweiModbusClient,
+		private unitId: number = 3,
+		private writeGuard: WriteGuard = new WriteGuard(client, 'smartlogger')
+	) {}
 
 	/**
-	 * Read system date/time as UTC timestamp
-	 * Registers: 40000-40001 (U32, epoch seconds)
+	 * Read a single field by its descriptive name (e.g. 'activePowerTotal')
+	 * Address, type and gain come from SMARTLOGGER_REGISTERS
 	 */
-	async readSystemDateTime(): Promise<number | null> {
-		const result = await this.client.readU32(40000, this.unitId);
-		return result.success ? result.data! : null;
-	}
+	async readField(name: string, unitId?: number): Promise<DecodedValue | null> {
+		const definition = findRegister(SMARTLOGGER_REGISTERS, name);
+		if (!definition) {
+			return null;
+		}
 
-	/**
-	 * Read location city identifier
-	 * Registers: 40002-40003 (U32)
-	 */
-	async readLocationCity(): Promise<number | null> {
-		const result = await this.client.readU32(40002, this.unitId);
-		return result.success ? result.data! : null;
+		const values = await readRegisters(this.client, [definition], unitId || this.unitId);
+		return values[definition.name] ?? null;
 	}
 
 	/**
-	 * Read daylight saving time enable status
-	 * Register: 40004 (U16)
+	 * Read all registers of a data category with the read planner
 	 */
-	async readDstEnable(): Promise<boolean | null> {
-		const result = await this.client.readU16(40004, this.unitId);
-		return result.success ? Boolean(result.data!) : null;
+	async readCategory(category: string, useIEC?: boolean): Promise<any> {
+		return readRegisters(
+			this.client,
+			registersForCategories(SMARTLOGGER_REGISTERS, [category]),
+			this.unitId,
+			useIEC
+		);
 	}
 
 	/**
 	 * Read all system control data
+	 * Registers: 40000-40004
 	 */
 	async readSystemData(useIEC?: boolean): Promise<SmartLoggerSystemData> {
-		const [datetime, locationCity, dstEnable] = await Promise.all([
-			this.readSystemDateTime(),
-			this.readLocationCity(),
-			this.readDstEnable()
-		]);
-
-		return {
-			...(datetime !== null && { datetime }),
-			...(locationCity !== null && { locationCity }),
-			...(dstEnable !== null && { dstEnable })
-		};
+		return this.readCategory('system', useIEC);
 	}
 
-	// ============================================================================
-	// POWER MONITORING REGISTERS (40500-40599)
-	// ============================================================================
-
 	/**
-	 * Read total DC current from all inverters
-	 * Register: 40500 (I16, gain=10)
-	 */
-	async readDcCurrentTotal(): Promise<number | null> {
-		const result = await this.client.readI16(40500, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
-
-	/**
-	 * Read total input power from all inverters
-	 * Registers: 40521-40522 (U32, gain=1000)
-	 */
-	async readInputPowerTotal(): Promise<number | null> {
-		const result = await this.client.readU32(40521, this.unitId);
-		return result.success ? result.data! / 1000.0 : null;
-	}
-
-	/**
-	 * Read total CO2 reduction
-	 * Registers: 40523-40524 (U32, gain=10)
-	 */
-	async readCO2Reduction(): Promise<number | null> {
-		const result = await this.client.readU32(40523, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
-
-	/**
-	 * Read total active power output (AC)
-	 * Registers: 40525-40526 (I32, gain=1000)
-	 */
-	async readActivePowerTotal(): Promise<number | null> {
-		const result = await this.client.readI32(40525, this.unitId);
-		return result.success ? result.data! / 1000.0 : null;
-	}
-
-	/**
-	 * Read total reactive power
-	 * Registers: 40544-40545 (I32, gain=1000)
-	 */
-	async readReactivePowerTotal(): Promise<number | null> {
-		const result = await this.client.readI32(40544, this.unitId);
-		return result.success ? result.data! / 1000.0 : null;
-	}
-
-	/**
-	 * Read system power factor
-	 * Register: 40532 (I16, gain=1000)
+	 * Read all power monitoring data
+	 * Registers: 40500-40566
 	 */
-	async readPowerFactor(): Promise<number | null> {
-		const result = await this.client.readI16(40532, this.unitId);
-		return result.success ? result.data! / 1000.0 : null;
+	async readPowerData(useIEC?: boolean): Promise<SmartLoggerPowerData> {
+		return this.readCategory('power', useIEC);
 	}
 
 	/**
-	 * Read plant operational status (Qinghai region)
-	 * Register: 40543 (U16)
+	 * Read all environmental monitoring data
+	 * Registers: 40031-40037
 	 */
-	async readPlantStatus(): Promise<string | null> {
-		const result = await this.client.readU16(40543, this.unitId);
-		return result.success ? parsePlantStatus(result.data!) : null;
+	async readEnvironmentalData(useIEC?: boolean): Promise<SmartLoggerEnvironmentalData> {
+		return this.readCategory('environmental', useIEC);
 	}
 
 	/**
-	 * Read plant operational status (Xinjiang region)
-	 * Register: 40566 (U16)
+	 * Read all alarm data and decode the active alarms (see SMARTLOGGER_ALARMS)
+	 * Registers: 50000-50002
 	 */
-	async readPlantStatusXinjiang(): Promise<string | null> {
-		const result = await this.client.readU16(40566, this.unitId);
-		if (!result.success || result.data === undefined) return null;
-		
-		// Parse Xinjiang-specific status codes
-		switch (result.data) {
-			case 0: return 'Idle';
-			case 1: return 'On-grid';
-			case 2: return 'On-grid with self-derating';
-			case 3: return 'On-grid with power limit';
-			case 4: return 'Planned outage';
-			case 5: return 'Power limit outage';
-			case 6: return 'Fault outage';
-			case 7: return 'Communication interrupt';
-			default: return `Unknown (${result.data})`;
+	async readAlarmData(useIEC?: boolean): Promise<SmartLoggerAlarmData> {
+		const data: SmartLoggerAlarmData = await this.readCategory('alarms', useIEC);
+		if (data.alarmInfo1 === undefined && data.alarmInfo2 === undefined && data.certificateAlarms === undefined) {
+			return data;
 		}
-	}
 
-	/**
-	 * Read total energy yield (lifetime)
-	 * Registers: 40560-40561 (U32, gain=10)
-	 */
-	async readTotalEnergy(): Promise<number | null> {
-		const result = await this.client.readU32(40560, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
-
-	/**
-	 * Read daily energy yield
-	 * Registers: 40562-40563 (U32, gain=10)
-	 */
-	async readDailyEnergy(): Promise<number | null> {
-		const result = await this.client.readU32(40562, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
-
-	/**
-	 * Read all power monitoring data
-	 */
-	async readPowerData(useIEC?: boolean): Promise<SmartLoggerPowerData> {
-		const [
-			dcCurrentTotal,
-			inputPowerTotal,
-			co2Reduction,
-			activePowerTotal,
-			reactivePowerTotal,
-			powerFactor,
-			plantStatus,
-			plantStatusXinjiang,
-			totalEnergy,
-			dailyEnergy
-		] = await Promise.all([
-			this.readDcCurrentTotal(),
-			this.readInputPowerTotal(),
-			this.readCO2Reduction(),
-			this.readActivePowerTotal(),
-			this.readReactivePowerTotal(),
-			this.readPowerFactor(),
-			this.readPlantStatus(),
-			this.readPlantStatusXinjiang(),
-			this.readTotalEnergy(),
-			this.readDailyEnergy()
-		]);
-
-		const result: any = {};
-		
-		if (dcCurrentTotal !== null) result[useIEC ? 'dcI' : 'dcCurrentTotal'] = dcCurrentTotal;
-		if (inputPowerTotal !== null) result[useIEC ? 'dcP' : 'inputPowerTotal'] = inputPowerTotal;
-		if (co2Reduction !== null) result[useIEC ? 'CO2' : 'co2Reduction'] = co2Reduction;
-		if (activePowerTotal !== null) result[useIEC ? 'P' : 'activePowerTotal'] = activePowerTotal;
-		if (reactivePowerTotal !== null) result[useIEC ? 'Q' : 'reactivePowerTotal'] = reactivePowerTotal;
-		if (powerFactor !== null) result[useIEC ? 'PF' : 'powerFactor'] = powerFactor;
-		if (plantStatus !== null) result[useIEC ? 'status' : 'plantStatus'] = plantStatus;
-		if (plantStatusXinjiang !== null) result[useIEC ? 'statusXJ' : 'plantStatusXinjiang'] = plantStatusXinjiang;
-		if (totalEnergy !== null) result[useIEC ? 'EPI' : 'totalEnergy'] = totalEnergy;
-		if (dailyEnergy !== null) result[useIEC ? 'EPId' : 'dailyEnergy'] = dailyEnergy;
-		
-		return result;
+		const alarms = decodeAlarms(SMARTLOGGER_ALARMS, { ...data });
+		return {
+			...data,
+			alarms,
+			alarmCounts: countAlarmsBySeverity(alarms),
+			activeAlarmCount: alarms.length,
+		};
 	}
 
 	// ============================================================================
-	// ENVIRONMENTAL MONITORING REGISTERS (40031-40037)
+	// POWER METERS (32260-32342, per meter unit ID)
 	// ============================================================================
 
 	/**
-	 * Read current wind speed
-	 * Register: 40031 (I16, gain=10)
-	 */
-	async readWindSpeed(): Promise<number | null> {
-		const result = await this.client.readI16(40031, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
-
-	/**
-	 * Read wind direction
-	 * Register: 40032 (I16, 0-359 degrees)
-	 */
-	async readWindDirection(): Promise<number | null> {
-		const result = await this.client.readI16(40032, this.unitId);
-		return result.success ? result.data! : null;
-	}
-
-	/**
-	 * Read PV module temperature
-	 * Register: 40033 (I16, gain=10)
+	 * Whether a discovered device is a power meter (DTSU666, DHSU, YDS60 or a generic "Meter" name)
 	 */
-	async readPvTemperature(): Promise<number | null> {
-		const result = await this.client.readI16(40033, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
+	static isMeterDevice(deviceName?: string): boolean {
+		return !!deviceName && /meter|DTSU|DHSU|YDS60/i.test(deviceName);
 	}
 
 	/**
-	 * Read ambient air temperature
-	 * Register: 40034 (I16, gain=10)
+	 * Read a power meter connected to the SmartLogger from its own unit ID
 	 */
-	async readAmbientTemperature(): Promise<number | null> {
-		const result = await this.client.readI16(40034, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
-	}
+	async readMeterData(unitId: number, deviceName?: string, useIEC?: boolean): Promise<SmartLoggerMeterData> {
+		const values = await readRegisters(this.client, SMARTLOGGER_METER_REGISTERS, unitId, useIEC);
+		if (Object.keys(values).length === 0) {
+			return { unitId, ...(deviceName && { deviceName }), error: `Meter ${unitId} not responding` };
+		}
 
-	/**
-	 * Read solar irradiance
-	 * Register: 40035 (I16, gain=10)
-	 */
-	async readIrradiance(): Promise<number | null> {
-		const result = await this.client.readI16(40035, this.unitId);
-		return result.success ? result.data! / 10.0 : null;
+		return { unitId, ...(deviceName && { deviceName }), ...values };
 	}
 
 	/**
-	 * Read daily irradiation accumulation
-	 * Registers: 40036-40037 (U32, gain=1000)
+	 * Read multiple power meters one after another
 	 */
-	async readDailyIrradiation(): Promise<number | null> {
-		const result = await this.client.readU32(40036, this.unitId);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+	async readMultipleMeters(meters: Array<{ unitId: number; deviceName?: string }>, useIEC?: boolean): Promise<SmartLoggerMeterData[]> {
+		const results: SmartLoggerMeterData[] = [];
 
-	/**
-	 * Read all environmental monitoring data
-	 */
-	async readEnvironmentalData(useIEC?: boolean): Promise<SmartLoggerEnvironmentalData> {
-		const [
-			windSpeed,
-			windDirection,
-			pvTemperature,
-			ambientTemperature,
-			irradiance,
-			dailyIrradiation
-		] = await Promise.all([
-			this.readWindSpeed(),
-			this.readWindDirection(),
-			this.readPvTemperature(),
-			this.readAmbientTemperature(),
-			this.readIrradiance(),
-			this.readDailyIrradiation()
-		]);
+		for (const meter of meters) {
+			results.push(await this.readMeterData(meter.unitId, meter.deviceName, useIEC));
+		}
 
-		const result: any = {};
-		
-		if (windSpeed !== null) result[useIEC ? 'WindSpd' : 'windSpeed'] = windSpeed;
-		if (windDirection !== null) result[useIEC ? 'WindDir' : 'windDirection'] = windDirection;
-		if (pvTemperature !== null) result[useIEC ? 'TempPV' : 'pvTemperature'] = pvTemperature;
-		if (ambientTemperature !== null) result[useIEC ? 'TempAmb' : 'ambientTemperature'] = ambientTemperature;
-		if (irradiance !== null) result[useIEC ? 'Irr' : 'irradiance'] = irradiance;
-		if (dailyIrradiation !== null) result[useIEC ? 'IrrDly' : 'dailyIrradiation'] = dailyIrradiation;
-		
-		return result;
+		return results;
 	}
 
 	// ============================================================================
-	// ALARM REGISTERS (50000+)
+	// PLANT CONTROL (40420-40428)
 	// ============================================================================
 
 	/**
-	 * Read alarm information register 1
-	 * Register: 50000 (U16, bit field)
+	 * Write plant-level dispatch setpoints and report the resulting plant status
+	 * Only the setpoints provided are written, one register at a time
 	 */
-	async readAlarmInfo1(): Promise<number | null> {
-		const result = await this.client.readU16(50000, this.unitId);
-		return result.success ? result.data! : null;
-	}
+	async applyPlantControl(setpoints: PlantControlSetpoints, verify: boolean = true): Promise<PlantControlResult> {
+		const writes: GuardedWriteResult[] = [];
 
-	/**
-	 * Read alarm information register 2
-	 * Register: 50001 (U16, bit field)
-	 */
-	async readAlarmInfo2(): Promise<number | null> {
-		const result = await this.client.readU16(50001, this.unitId);
-		return result.success ? result.data! : null;
-	}
+		for (const [key, registerName] of Object.entries(PLANT_SETPOINT_REGISTERS)) {
+			const value = setpoints[key as keyof PlantControlSetpoints];
+			if (value === undefined) {
+				continue;
+			}
 
-	/**
-	 * Read certificate-related alarms
-	 * Register: 50002 (U16)
-	 */
-	async readCertificateAlarms(): Promise<number | null> {
-		const result = await this.client.readU16(50002, this.unitId);
-		return result.success ? result.data! : null;
-	}
+			const definition = findRegister(SMARTLOGGER_CONTROL_REGISTERS, registerName)!;
+			writes.push(await this.writeGuard.write(definition, value, this.unitId, { verify, verifyDelay: 500 }));
+		}
 
-	/**
-	 * Read all alarm data
-	 */
-	async readAlarmData(useIEC?: boolean): Promise<SmartLoggerAlarmData> {
-		const [alarmInfo1, alarmInfo2, certificateAlarms] = await Promise.all([
-			this.readAlarmInfo1(),
-			this.readAlarmInfo2(),
-			this.readCertificateAlarms()
-		]);
+		const plantStatus = await this.readField('plantStatus');
 
 		return {
-			...(alarmInfo1 !== null && { alarmInfo1 }),
-			...(alarmInfo2 !== null && { alarmInfo2 }),
-			...(certificateAlarms !== null && { certificateAlarms })
+			success: writes.length > 0 && writes.every(write => write.success),
+			...(writes.some(write => write.dryRun) && { dryRun: true }),
+			writes,
+			...(typeof plantStatus === 'string' && { plantStatus }),
 		};
 	}
 
@@ -401,43 +267,26 @@ export class SmartLoggerFunctions {
 	// ============================================================================
 
 	/**
-	 * Read device name string
-	 * Registers: 65524-65533 (10x U16, 20-byte string)
-	 */
-	async readDeviceName(unitId?: number): Promise<string | null> {
-		const targetUnitId = unitId || this.unitId;
-		const result = await this.client.readString(65524, 10, 20, targetUnitId);
-		return result.success ? result.data! : null;
-	}
-
-	/**
-	 * Read device connection status
-	 * Register: 65534 (U16)
-	 */
-	async readConnectionStatus(unitId?: number): Promise<string | null> {
-		const targetUnitId = unitId || this.unitId;
-		const result = await this.client.readU16(65534, targetUnitId);
-		return result.success ? parseConnectionStatus(result.data!) : null;
-	}
-
-	/**
-	 * Read device ModBus address
-	 * Register: 65523 (U16)
+	 * Whether a discovered device is a SUN2000 inverter (SUN2000 or 100KTL model name, or a generic "Inverter" name)
 	 */
-	async readDeviceAddress(unitId?: number): Promise<number | null> {
-		const targetUnitId = unitId || this.unitId;
-		const result = await this.client.readU16(65523, targetUnitId);
-		return result.success ? result.data! : null;
+	static isInverterDevice(deviceName?: string): boolean {
+		return !!deviceName && (
+			deviceName.includes('SUN2000') ||
+			deviceName.includes('100KTL') ||
+			deviceName.toLowerCase().includes('inverter')
+		);
 	}
 
 	/**
-	 * Read physical port number
-	 * Register: 65522 (U16)
+	 * Read device information (name, connection status, port, address) of a unit
+	 * Registers: 65522-65534
 	 */
-	async readPortNumber(unitId?: number): Promise<number | null> {
-		const targetUnitId = unitId || this.unitId;
-		const result = await this.client.readU16(65522, targetUnitId);
-		return result.success ? result.data! : null;
+	async readDeviceInfo(unitId?: number): Promise<Omit<DeviceInfo, 'unitId'>> {
+		return readRegisters(
+			this.client,
+			registersForCategories(SMARTLOGGER_REGISTERS, ['deviceInfo']),
+			unitId || this.unitId
+		);
 	}
 
 	/**
@@ -448,23 +297,10 @@ export class SmartLoggerFunctions {
 
 		for (const unitId of unitRange) {
 			try {
-				// Try to read device name first (most reliable public register)
-				const deviceName = await this.readDeviceName(unitId);
-				if (deviceName) {
-					// Get additional device info
-					const [connectionStatus, portNumber, deviceAddress] = await Promise.all([
-						this.readConnectionStatus(unitId),
-						this.readPortNumber(unitId),
-						this.readDeviceAddress(unitId)
-					]);
-
-					discovered.push({
-						unitId,
-						...(deviceName && { deviceName }),
-						...(connectionStatus && { connectionStatus }),
-						...(portNumber !== null && { portNumber }),
-						...(deviceAddress !== null && { deviceAddress })
-					});
+				// Device name is the most reliable public register
+				const deviceInfo = await this.readDeviceInfo(unitId);
+				if (deviceInfo.deviceName) {
+					discovered.push({ unitId, ...deviceInfo });
 				}
 			} catch (error) {
 				// Skip unresponsive units
@@ -477,65 +313,44 @@ export class SmartLoggerFunctions {
 
 	/**
 	 * Discover all connected devices using parallel scanning (faster but more network intensive)
-	 * Creates separate client instances to avoid unit ID conflicts
 	 */
 	async discoverAllDevicesParallel(unitRange: number[] = Array.from({length: 247}, (_, i) => i + 1), concurrency: number = 10): Promise<DeviceInfo[]> {
 		const discovered: DeviceInfo[] = [];
+
+		// Scan over the shared connection: each request carries its unit ID,
+		// and up to `concurrency` requests are pipelined
+		const scanClient = this.client.withConfig({ maxConcurrentRequests: concurrency });
 		
-		// Process units in batches to limit concurrent connections
+		// Process units in batches to limit concurrent requests
 		for (let i = 0; i < unitRange.length; i += concurrency) {
 			const batch = unitRange.slice(i, i + concurrency);
 			
 			const batchPromises = batch.map(async (unitId) => {
-				// Create a dedicated client for this unit ID to avoid conflicts
-				const { HuaweiModbusClient } = await import('./modbus-utils');
-				const originalConfig = this.client.getConfig();
-				const dedicatedClient = new HuaweiModbusClient({
-					...originalConfig,
-					unitId: unitId // Set the unit ID for this specific client
-				});
-				
 				try {
-					// Connect the dedicated client
-					const connected = await dedicatedClient.connect();
-					if (!connected) {
-						return null;
-					}
-
 					// Try to read device name first (most reliable public register)
-					const deviceNameResult = await dedicatedClient.readString(65524, 10, 20, unitId);
+					const deviceNameResult = await scanClient.readString(65524, 10, 20, unitId);
 					if (deviceNameResult.success && deviceNameResult.data) {
 						const deviceName = deviceNameResult.data;
 						
-						// Get additional device info in parallel using the dedicated client
+						// Get additional device info in parallel
 						const [connectionStatusResult, portNumberResult, deviceAddressResult] = await Promise.all([
-							dedicatedClient.readU16(65534, unitId),
-							dedicatedClient.readU16(65522, unitId),
-							dedicatedClient.readU16(65523, unitId)
+							scanClient.readU16(65534, unitId),
+							scanClient.readU16(65522, unitId),
+							scanClient.readU16(65523, unitId)
 						]);
 
-						// Parse connection status
-						let connectionStatus: string | undefined;
-						if (connectionStatusResult.success && connectionStatusResult.data !== undefined) {
-							const statusValue = connectionStatusResult.data;
-							connectionStatus = statusValue === 0xB001 ? 'Online' : 
-											 statusValue === 0xB000 ? 'Offline' : 
-											 `Unknown (0x${statusValue.toString(16).toUpperCase()})`;
-						}
-
 						return {
 							unitId,
 							deviceName,
-							...(connectionStatus && { connectionStatus }),
+							...(connectionStatusResult.success && connectionStatusResult.data !== undefined && {
+								connectionStatus: parseConnectionStatus(connectionStatusResult.data),
+							}),
 							...(portNumberResult.success && portNumberResult.data !== undefined && { portNumber: portNumberResult.data }),
 							...(deviceAddressResult.success && deviceAddressResult.data !== undefined && { deviceAddress: deviceAddressResult.data })
 						};
 					}
 				} catch (error) {
 					// Skip unresponsive units
-				} finally {
-					// Always disconnect the dedicated client
-					await dedicatedClient.disconnect();
 				}
 				return null;
 			});
@@ -555,27 +370,16 @@ export class SmartLoggerFunctions {
 
 	/**
 	 * Discover SUN2000 inverters specifically (typically units 12-15) - sequential
+	 * Same inverter name filter as the parallel scan (see isInverterDevice)
 	 */
 	async discoverInverters(unitRange: number[] = [12, 13, 14, 15]): Promise<DeviceInfo[]> {
 		const inverters: DeviceInfo[] = [];
 
 		for (const unitId of unitRange) {
 			try {
-				const deviceName = await this.readDeviceName(unitId);
-				if (deviceName && deviceName.includes('SUN2000')) {
-					const [connectionStatus, portNumber, deviceAddress] = await Promise.all([
-						this.readConnectionStatus(unitId),
-						this.readPortNumber(unitId),
-						this.readDeviceAddress(unitId)
-					]);
-
-					inverters.push({
-						unitId,
-						deviceName,
-						...(connectionStatus && { connectionStatus }),
-						...(portNumber !== null && { portNumber }),
-						...(deviceAddress !== null && { deviceAddress })
-					});
+				const deviceInfo = await this.readDeviceInfo(unitId);
+				if (SmartLoggerFunctions.isInverterDevice(deviceInfo.deviceName)) {
+					inverters.push({ unitId, ...deviceInfo });
 				}
 			} catch (error) {
 				continue;
@@ -587,65 +391,43 @@ export class SmartLoggerFunctions {
 
 	/**
 	 * Discover SUN2000 inverters using parallel scanning (faster)
-	 * Creates separate client instances to avoid unit ID conflicts
 	 */
 	async discoverInvertersParallel(unitRange: number[] = [12, 13, 14, 15], concurrency: number = 5): Promise<DeviceInfo[]> {
 		const inverters: DeviceInfo[] = [];
+
+		// Scan over the shared connection (see discoverAllDevicesParallel)
+		const scanClient = this.client.withConfig({ maxConcurrentRequests: concurrency });
 		
 		// Process units in batches
 		for (let i = 0; i < unitRange.length; i += concurrency) {
 			const batch = unitRange.slice(i, i + concurrency);
 			
 			const batchPromises = batch.map(async (unitId) => {
-				// Create a dedicated client for this unit ID to avoid conflicts
-				const { HuaweiModbusClient } = await import('./modbus-utils');
-				const originalConfig = this.client.getConfig();
-				const dedicatedClient = new HuaweiModbusClient({
-					...originalConfig,
-					unitId: unitId // Set the unit ID for this specific client
-				});
-				
 				try {
-					// Connect the dedicated client
-					const connected = await dedicatedClient.connect();
-					if (!connected) {
-						return null;
-					}
-
 					// Try to read device name first
-					const deviceNameResult = await dedicatedClient.readString(65524, 10, 20, unitId);
-					if (deviceNameResult.success && deviceNameResult.data && deviceNameResult.data.includes('SUN2000')) {
+					const deviceNameResult = await scanClient.readString(65524, 10, 20, unitId);
+					if (deviceNameResult.success && SmartLoggerFunctions.isInverterDevice(deviceNameResult.data)) {
 						const deviceName = deviceNameResult.data;
 						
-						// Get additional device info in parallel using the dedicated client
+						// Get additional device info in parallel
 						const [connectionStatusResult, portNumberResult, deviceAddressResult] = await Promise.all([
-							dedicatedClient.readU16(65534, unitId),
-							dedicatedClient.readU16(65522, unitId),
-							dedicatedClient.readU16(65523, unitId)
+							scanClient.readU16(65534, unitId),
+							scanClient.readU16(65522, unitId),
+							scanClient.readU16(65523, unitId)
 						]);
 
-						// Parse connection status
-						let connectionStatus: string | undefined;
-						if (connectionStatusResult.success && connectionStatusResult.data !== undefined) {
-							const statusValue = connectionStatusResult.data;
-							connectionStatus = statusValue === 0xB001 ? 'Online' : 
-											 statusValue === 0xB000 ? 'Offline' : 
-											 `Unknown (0x${statusValue.toString(16).toUpperCase()})`;
-						}
-
 						return {
 							unitId,
 							deviceName,
-							...(connectionStatus && { connectionStatus }),
+							...(connectionStatusResult.success && connectionStatusResult.data !== undefined && {
+								connectionStatus: parseConnectionStatus(connectionStatusResult.data),
+							}),
 							...(portNumberResult.success && portNumberResult.data !== undefined && { portNumber: portNumberResult.data }),
 							...(deviceAddressResult.success && deviceAddressResult.data !== undefined && { deviceAddress: deviceAddressResult.data })
 						};
 					}
 				} catch (error) {
 					// Skip unresponsive units
-				} finally {
-					// Always disconnect the dedicated client
-					await dedicatedClient.disconnect();
 				}
 				return null;
 			});
@@ -0,0 +1,129 @@
+/**
+ * Huawei SmartLogger 3000 Register Map
+ *
+ * Register definitions for the SmartLogger, grouped by data category.
+ * All registers are read from the SmartLogger unit ID (typically 3),
+ * device information registers from the unit ID of each connected device.
+ */
+
+import { AlarmDefinition, AlarmSeverity } from './alarms';
+import { parseConnectionStatus, parsePlantStatus } from './modbus-utils';
+import { RegisterDefinition, defineRegister } from './register-map';
+
+/**
+ * Xinjiang region plant status codes (register 40566)
+ */
+const PLANT_STATUS_XINJIANG: Record<number, string> = {
+	0: 'Idle',
+	1: 'On-grid',
+	2: 'On-grid with self-derating',
+	3: 'On-grid with power limit',
+	4: 'Planned outage',
+	5: 'Power limit outage',
+	6: 'Fault outage',
+	7: 'Communication interrupt',
+};
+
+export const SMARTLOGGER_REGISTERS: RegisterDefinition[] = [
+	// System control (40000-40299)
+	defineRegister({ name: 'datetime', address: 40000, type: 'U32', unit: 's', description: 'System date/time (UTC epoch seconds)', category: 'system' }),
+	defineRegister({ name: 'locationCity', address: 40002, type: 'U32', description: 'Location city identifier', category: 'system' }),
+	defineRegister({ name: 'dstEnable', address: 40004, type: 'U16', description: 'Daylight saving time enabled', category: 'system', transform: Boolean }),
+
+	// Environmental monitoring (40031-40037)
+	defineRegister({ name: 'windSpeed', iecName: 'WindSpd', address: 40031, type: 'I16', gain: 10, unit: 'm/s', description: 'Wind speed', category: 'environmental' }),
+	defineRegister({ name: 'windDirection', iecName: 'WindDir', address: 40032, type: 'I16', unit: '°', description: 'Wind direction', category: 'environmental' }),
+	defineRegister({ name: 'pvTemperature', iecName: 'TempPV', address: 40033, type: 'I16', gain: 10, unit: '°C', description: 'PV module temperature', category: 'environmental' }),
+	defineRegister({ name: 'ambientTemperature', iecName: 'TempAmb', address: 40034, type: 'I16', gain: 10, unit: '°C', description: 'Ambient air temperature', category: 'environmental' }),
+	defineRegister({ name: 'irradiance', iecName: 'Irr', address: 40035, type: 'I16', gain: 10, unit: 'W/m²', description: 'Solar irradiance', category: 'environmental' }),
+	defineRegister({ name: 'dailyIrradiation', iecName: 'IrrDly', address: 40036, type: 'U32', gain: 1000, unit: 'MJ/m²', description: 'Daily irradiation', category: 'environmental' }),
+
+	// Power monitoring (40500-40599)
+	defineRegister({ name: 'dcCurrentTotal', iecName: 'dcI', address: 40500, type: 'I16', gain: 10, unit: 'A', description: 'Total DC current', category: 'power' }),
+	defineRegister({ name: 'inputPowerTotal', iecName: 'dcP', address: 40521, type: 'U32', gain: 1000, unit: 'kW', description: 'Total input power', category: 'power' }),
+	defineRegister({ name: 'co2Reduction', iecName: 'CO2', address: 40523, type: 'U32', gain: 10, unit: 'kg', description: 'Total CO2 reduction', category: 'power' }),
+	defineRegister({ name: 'activePowerTotal', iecName: 'P', address: 40525, type: 'I32', gain: 1000, unit: 'kW', description: 'Total active power', category: 'power' }),
+	defineRegister({ name: 'reactivePowerTotal', iecName: 'Q', address: 40544, type: 'I32', gain: 1000, unit: 'kvar', description: 'Total reactive power', category: 'power' }),
+	defineRegister({ name: 'powerFactor', iecName: 'PF', address: 40532, type: 'I16', gain: 1000, description: 'System power factor', category: 'power' }),
+	defineRegister({ name: 'plantStatus', iecName: 'status', address: 40543, type: 'ENUM', description: 'Plant status (Qinghai)', category: 'power', transform: parsePlantStatus }),
+	defineRegister({ name: 'plantStatusXinjiang', iecName: 'statusXJ', address: 40566, type: 'ENUM', description: 'Plant status (Xinjiang)', category: 'power', enumValues: PLANT_STATUS_XINJIANG }),
+	defineRegister({ name: 'totalEnergy', iecName: 'EPI', address: 40560, type: 'U32', gain: 10, unit: 'kWh', description: 'Lifetime energy yield', category: 'power' }),
+	defineRegister({ name: 'dailyEnergy', iecName: 'EPId', address: 40562, type: 'U32', gain: 10, unit: 'kWh', description: 'Daily energy yield', category: 'power' }),
+
+	// Alarms (50000+)
+	defineRegister({ name: 'alarmInfo1', address: 50000, type: 'BITFIELD', description: 'Alarm information 1', category: 'alarms' }),
+	defineRegister({ name: 'alarmInfo2', address: 50001, type: 'BITFIELD', description: 'Alarm information 2', category: 'alarms' }),
+	defineRegister({ name: 'certificateAlarms', address: 50002, type: 'BITFIELD', description: 'Certificate-related alarms', category: 'alarms' }),
+
+	// Device information (read per connected device)
+	defineRegister({ name: 'portNumber', address: 65522, type: 'U16', description: 'Physical port number', category: 'deviceInfo' }),
+	defineRegister({ name: 'deviceAddress', address: 65523, type: 'U16', description: 'Device Modbus address', category: 'deviceInfo' }),
+	defineRegister({ name: 'deviceName', address: 65524, length: 10, type: 'STR', description: 'Device name', category: 'deviceInfo' }),
+	defineRegister({ name: 'connectionStatus', address: 65534, type: 'ENUM', description: 'Device connection status', category: 'deviceInfo', transform: parseConnectionStatus }),
+];
+
+/**
+ * SmartLogger alarm bits of the alarm registers 50000-50002
+ */
+export const SMARTLOGGER_ALARMS: AlarmDefinition[] = [
+	// Alarm information 1 (50000)
+	{ register: 'alarmInfo1', address: 50000, bit: 0, name: 'Abnormal Device Communication', severity: AlarmSeverity.Major, cause: 'A connected device (inverter, PID module, power meter) stopped answering on the RS485 bus or Ethernet', suggestion: 'Check the communication cable, address and baud rate of the device' },
+	{ register: 'alarmInfo1', address: 50000, bit: 1, name: 'Abnormal Management System Communication', severity: AlarmSeverity.Minor, cause: 'The connection to the management system (e.g. FusionSolar or NetEco) is lost', suggestion: 'Check the network connection and the management system settings' },
+	{ register: 'alarmInfo1', address: 50000, bit: 2, name: 'Abnormal Power Meter Communication', severity: AlarmSeverity.Major, cause: 'The grid connection point meter does not respond', suggestion: 'Check the meter cable and its communication settings' },
+	{ register: 'alarmInfo1', address: 50000, bit: 3, name: 'Abnormal EMI Communication', severity: AlarmSeverity.Minor, cause: 'The environmental monitoring instrument does not respond', suggestion: 'Check the EMI cable and its communication settings' },
+	{ register: 'alarmInfo1', address: 50000, bit: 4, name: 'Abnormal PLC Communication', severity: AlarmSeverity.Major, cause: 'Power line communication with the devices on the AC bus failed', suggestion: 'Check the PLC module and the AC cables; restart the SmartLogger if the alarm persists' },
+	{ register: 'alarmInfo1', address: 50000, bit: 5, name: 'Abnormal Grid Dispatch', severity: AlarmSeverity.Major, cause: 'No valid dispatch instruction was received from the grid operator', suggestion: 'Check the dispatch interface (dry contacts, AI port or remote dispatch link)' },
+	{ register: 'alarmInfo1', address: 50000, bit: 6, name: 'Abnormal Clock', severity: AlarmSeverity.Warning, cause: 'The system time is not synchronized', suggestion: 'Set the time or configure time synchronization (NTP or management system)' },
+	{ register: 'alarmInfo1', address: 50000, bit: 7, name: 'Insufficient Storage', severity: AlarmSeverity.Warning, cause: 'The internal storage or SD card is full or faulty', suggestion: 'Export and clear historical data, or replace the SD card' },
+	{ register: 'alarmInfo1', address: 50000, bit: 8, name: 'SmartLogger Overtemperature', severity: AlarmSeverity.Minor, cause: 'The SmartLogger is installed in a place with poor ventilation or high ambient temperature', suggestion: 'Improve the ventilation of the cabinet' },
+
+	// Alarm information 2 (50001)
+	{ register: 'alarmInfo2', address: 50001, bit: 0, name: 'Abnormal 4G Communication', severity: AlarmSeverity.Minor, cause: 'The 4G module has no signal, no SIM card or is not registered', suggestion: 'Check the SIM card, antenna and mobile network coverage' },
+	{ register: 'alarmInfo2', address: 50001, bit: 1, name: 'Abnormal Fiber Communication', severity: AlarmSeverity.Minor, cause: 'The fiber link or SFP module is down', suggestion: 'Check the fiber cable and the SFP module' },
+	{ register: 'alarmInfo2', address: 50001, bit: 2, name: 'Abnormal SmartModule Communication', severity: AlarmSeverity.Major, cause: 'The SmartModule extension does not respond', suggestion: 'Check the SmartModule cable and power supply' },
+	{ register: 'alarmInfo2', address: 50001, bit: 3, name: 'Abnormal Ethernet Port', severity: AlarmSeverity.Minor, cause: 'An Ethernet port has no link', suggestion: 'Check the network cable and the connected switch' },
+	{ register: 'alarmInfo2', address: 50001, bit: 4, name: 'Invalid Configuration', severity: AlarmSeverity.Warning, cause: 'The device configuration is incomplete or inconsistent (e.g. duplicate addresses)', suggestion: 'Check the device list and the address settings' },
+
+	// Certificate alarms (50002)
+	{ register: 'certificateAlarms', address: 50002, bit: 0, name: 'Certificate Expiring Soon', severity: AlarmSeverity.Warning, cause: 'The security certificate used for management system or Modbus TCP connections expires soon', suggestion: 'Replace the certificate before it expires' },
+	{ register: 'certificateAlarms', address: 50002, bit: 1, name: 'Certificate Expired', severity: AlarmSeverity.Major, cause: 'The security certificate has expired, so encrypted connections may be refused', suggestion: 'Replace the certificate' },
+	{ register: 'certificateAlarms', address: 50002, bit: 2, name: 'Certificate Invalid', severity: AlarmSeverity.Major, cause: 'The security certificate is invalid or does not match the device', suggestion: 'Load a valid certificate' },
+	{ register: 'certificateAlarms', address: 50002, bit: 3, name: 'Preconfigured Certificate in Use', severity: AlarmSeverity.Warning, cause: 'The factory certificate is still in use', suggestion: 'Replace the preconfigured certificate with a site certificate' },
+];
+
+/**
+ * Plant-level dispatch registers (system block, written to the SmartLogger unit ID)
+ */
+export const SMARTLOGGER_CONTROL_REGISTERS: RegisterDefinition[] = [
+	defineRegister({ name: 'plantActivePowerLimit', address: 40420, type: 'U32', gain: 10, unit: 'kW', description: 'Plant active power limit', category: 'control' }),
+	defineRegister({ name: 'plantReactivePower', address: 40422, type: 'I32', gain: 10, unit: 'kvar', description: 'Plant reactive power setpoint', category: 'control' }),
+	defineRegister({ name: 'plantPowerFactor', address: 40424, type: 'I16', gain: 1000, description: 'Plant power factor setpoint', category: 'control' }),
+	defineRegister({ name: 'plantActivePowerPercent', address: 40428, type: 'U16', gain: 10, unit: '%', description: 'Plant active power limit (percentage)', category: 'control' }),
+];
+
+/**
+ * Power meter registers (DTSU666 and compatible meters connected to the SmartLogger),
+ * read from the unit ID of each meter device (power > 0 = export, < 0 = import)
+ */
+export const SMARTLOGGER_METER_REGISTERS: RegisterDefinition[] = [
+	defineRegister({ name: 'phaseAVoltage', iecName: 'Ua', address: 32260, type: 'U32', gain: 100, unit: 'V', description: 'Phase A voltage', category: 'meter' }),
+	defineRegister({ name: 'phaseBVoltage', iecName: 'Ub', address: 32262, type: 'U32', gain: 100, unit: 'V', description: 'Phase B voltage', category: 'meter' }),
+	defineRegister({ name: 'phaseCVoltage', iecName: 'Uc', address: 32264, type: 'U32', gain: 100, unit: 'V', description: 'Phase C voltage', category: 'meter' }),
+	defineRegister({ name: 'gridVoltageUAB', iecName: 'Uab', address: 32266, type: 'U32', gain: 100, unit: 'V', description: 'Line voltage A-B', category: 'meter' }),
+	defineRegister({ name: 'gridVoltageUBC', iecName: 'Ubc', address: 32268, type: 'U32', gain: 100, unit: 'V', description: 'Line voltage B-C', category: 'meter' }),
+	defineRegister({ name: 'gridVoltageUCA', iecName: 'Uca', address: 32270, type: 'U32', gain: 100, unit: 'V', description: 'Line voltage C-A', category: 'meter' }),
+	defineRegister({ name: 'phaseACurrent', iecName: 'Ia', address: 32272, type: 'I32', gain: 10, unit: 'A', description: 'Phase A current', category: 'meter' }),
+	defineRegister({ name: 'phaseBCurrent', iecName: 'Ib', address: 32274, type: 'I32', gain: 10, unit: 'A', description: 'Phase B current', category: 'meter' }),
+	defineRegister({ name: 'phaseCCurrent', iecName: 'Ic', address: 32276, type: 'I32', gain: 10, unit: 'A', description: 'Phase C current', category: 'meter' }),
+	defineRegister({ name: 'activePower', iecName: 'P', address: 32278, type: 'I32', gain: 1000, unit: 'kW', description: 'Active power (export +, import -)', category: 'meter' }),
+	defineRegister({ name: 'reactivePower', iecName: 'Q', address: 32280, type: 'I32', gain: 1000, unit: 'kvar', description: 'Reactive power', category: 'meter' }),
+	defineRegister({ name: 'activeEnergy', iecName: 'EP', address: 32282, type: 'I32', gain: 100, unit: 'kWh', description: 'Total active energy', category: 'meter' }),
+	defineRegister({ name: 'powerFactor', iecName: 'PF', address: 32284, type: 'I16', gain: 1000, description: 'Power factor', category: 'meter' }),
+	defineRegister({ name: 'reactiveEnergy', iecName: 'EQ', address: 32285, type: 'I32', gain: 100, unit: 'kvarh', description: 'Total reactive energy', category: 'meter' }),
+	defineRegister({ name: 'apparentPower', iecName: 'S', address: 32287, type: 'I32', gain: 1000, unit: 'kVA', description: 'Apparent power', category: 'meter' }),
+	defineRegister({ name: 'phaseAActivePower', iecName: 'Pa', address: 32297, type: 'I32', gain: 1000, unit: 'kW', description: 'Phase A active power', category: 'meter' }),
+	defineRegister({ name: 'phaseBActivePower', iecName: 'Pb', address: 32299, type: 'I32', gain: 1000, unit: 'kW', description: 'Phase B active power', category: 'meter' }),
+	defineRegister({ name: 'phaseCActivePower', iecName: 'Pc', address: 32301, type: 'I32', gain: 1000, unit: 'kW', description: 'Phase C active power', category: 'meter' }),
+	defineRegister({ name: 'exportedEnergy', iecName: 'EPexp', address: 32335, type: 'I32', gain: 100, unit: 'kWh', description: 'Total energy exported to the grid', category: 'meter' }),
+	defineRegister({ name: 'importedEnergy', iecName: 'EPimp', address: 32341, type: 'I32', gain: 100, unit: 'kWh', description: 'Total energy imported from the grid', category: 'meter' }),
+];
@@ -3,9 +3,44 @@
  * 
  * Simple implementation for reading data from SUN2000 inverters via Modbus TCP
  * Based on modbus-slave.md documentation - using remapped register access
+ * Register addresses, types and gains live in sun2000-registers.ts
  */
 
-import { HuaweiModbusClient, combineU32RegistersLE, combineI32RegistersLE, toSignedInt16 } from './modbus-utils';
+import { AlarmCounts, AlarmDefinition, countAlarmsBySeverity, decodeAlarms, formatAlarmText } from './alarms';
+import { HuaweiModbusClient, RegisterRange, RegisterSnapshot, isDeviceUnreachable } from './modbus-utils';
+import {
+	DecodedValue,
+	decodeRegisters,
+	fieldName,
+	findRegister,
+	offsetRegisters,
+	readRegisters,
+	registersForCategories,
+	toRegisterRanges,
+} from './register-map';
+import {
+	BATTERY_PACKS_FIELD,
+	BATTERY_PACK_FIELDS,
+	BATTERY_PACK_SOC_BASE_REGISTER,
+	BATTERY_PACK_SOC_STRIDE,
+	BATTERY_PACK_TEMPERATURE_BASE_REGISTER,
+	DEVICE_STATUS_CODES,
+	MAX_BATTERY_PACKS,
+	MAX_PV_STRINGS,
+	MAX_TOU_PERIODS,
+	OPERATING_STATE_FLAGS,
+	PV_STRINGS_FIELD,
+	PV_STRING_BASE_REGISTER,
+	PV_STRING_FIELDS,
+	RUNNING_STATUS_FLAGS,
+	SUN2000_ALARMS,
+	SUN2000_CONTROL_REGISTERS,
+	SUN2000_DIRECT_TELEMETRY_REGISTERS,
+	SUN2000_REGISTERS,
+	SUN2000_REGISTER_GAPS,
+	SUN2000_REMAPPED_REGISTERS,
+} from './sun2000-registers';
+import { GuardedWriteResult, WriteGuard } from './write-safety';
 
 export interface SUN2000InverterData {
 	unitId: number;
@@ -54,7 +89,9 @@ export interface SUN2000InverterData {
 	// Status & Temperature
 	deviceStatus?: number;       // Device status code
 	deviceStatusText?: string;   // Human readable status
-	runningStatus?: number;      // Running status bitfield
+	operatingState?: number;     // Operating state bitfield (32000)
+	runningStatus?: number;      // Running status bitfield (32002)
+	runningStatusFlags?: Record<string, boolean>; // Decoded operating state/running status flags
 	internalTemperature?: number; // Internal temperature (°C)
 	insulationResistance?: number; // Insulation resistance (MΩ)
 	
@@ -62,9 +99,37 @@ export interface SUN2000InverterData {
 	alarm1?: number;             // Alarm register 1
 	alarm2?: number;             // Alarm register 2  
 	alarm3?: number;             // Alarm register 3
-	alarmTexts?: string[];       // Human readable alarms
+	alarms?: AlarmDefinition[];  // Active alarms (ID, register, bit, name, severity, cause, suggestion)
+	alarmCounts?: AlarmCounts;   // Active alarms per severity
+	alarmTexts?: string[];       // Human readable alarms, e.g. 'Grid Overvoltage (Major)'
 	faultCode?: number;          // Current fault code
 	
+	// Power Meter (DTSU666 on the inverter)
+	meterStatus?: string;        // Offline/Normal
+	meterActivePower?: number;   // Grid power, export + / import - (kW)
+	meterReactivePower?: number; // Grid reactive power (kVar)
+	meterPowerFactor?: number;   // Power factor at the grid connection
+	meterFrequency?: number;     // Grid frequency (Hz)
+	meterExportedEnergy?: number; // Energy exported to the grid (kWh)
+	meterImportedEnergy?: number; // Energy imported from the grid (kWh)
+	// ...plus per-phase voltages, currents and active power (meterPhaseAVoltage etc.)
+	
+	// Battery (LUNA2000)
+	batteryStateOfCharge?: number; // State of charge (%)
+	batteryRunningStatus?: string; // Offline/Standby/Running/Fault/Sleep mode
+	batteryPower?: number;       // Charge (+) / discharge (-) power (kW)
+	batteryTotalCharge?: number; // Total energy charged (kWh)
+	batteryTotalDischarge?: number; // Total energy discharged (kWh)
+	batteryDailyCharge?: number; // Energy charged today (kWh)
+	batteryDailyDischarge?: number; // Energy discharged today (kWh)
+	batteryWorkingMode?: string; // Working mode text
+	batteryPacks?: Array<{
+		packNumber: number;
+		stateOfCharge: number;   // Pack SOC (%)
+		maxTemperature?: number; // Highest cell temperature (°C)
+		minTemperature?: number; // Lowest cell temperature (°C)
+	}>;
+	
 	// Legacy remapped data (for backward compatibility)
 	dcCurrent?: number;          // DC current (A) - legacy
 	status?: number;             // Status code - legacy
@@ -77,202 +142,169 @@ export interface SUN2000InverterData {
 }
 
 /**
- * SUN2000 Inverter Functions Class
- * Supports both remapped register access and direct register access for comprehensive data
+ * How the inverter is reached
+ * smartLogger: through the SmartLogger gateway, basic telemetry from the remapped block on unit 0
+ * direct: inverter (or SDongle) connected directly, everything from the inverter's own registers
  */
-export class SUN2000Functions {
-	constructor(private client: HuaweiModbusClient) {}
+export type Sun2000ConnectionMode = 'smartLogger' | 'direct';
 
-	// ============================================================================
-	// DEVICE IDENTIFICATION REGISTERS (Direct Access)
-	// ============================================================================
-
-	/**
-	 * Read device model name
-	 * Register: 30000 (String, 15 registers = 30 bytes)
-	 */
-	async readDeviceModel(deviceAddress: number): Promise<string | null> {
-		const result = await this.client.readString(30000, 15, 30, deviceAddress);
-		return result.success ? result.data! : null;
-	}
-
-	/**
-	 * Read device serial number
-	 * Register: 30015 (String, 10 registers = 20 bytes)
-	 */
-	async readSerialNumber(deviceAddress: number): Promise<string | null> {
-		const result = await this.client.readString(30015, 10, 20, deviceAddress);
-		return result.success ? result.data! : null;
-	}
-
-	/**
-	 * Read firmware version
-	 * Register: 31025 (String, 15 registers = 30 bytes)
-	 */
-	async readFirmwareVersion(deviceAddress: number): Promise<string | null> {
-		const result = await this.client.readString(31025, 15, 30, deviceAddress);
-		return result.success ? result.data! : null;
-	}
-
-	/**
-	 * Read number of PV strings
-	 * Register: 30071 (U16)
-	 */
-	async readNumberOfStrings(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(30071, deviceAddress);
-		return result.success ? result.data! : null;
-	}
+/**
+ * Control actions supported by applyControl
+ */
+export type Sun2000ControlAction =
+	| 'activePowerPercent'
+	| 'activePowerFixed'
+	| 'powerFactor'
+	| 'reactivePowerRatio'
+	| 'powerOn'
+	| 'shutdown'
+	| 'batteryWorkingMode'
+	| 'batteryMaxChargePower'
+	| 'batteryMaxDischargePower'
+	| 'batteryGridCharging'
+	| 'batteryForcedCharge'
+	| 'batteryForcedDischarge'
+	| 'batteryStopForced'
+	| 'batteryTouSchedule';
 
-	/**
-	 * Read rated power
-	 * Register: 30073-30074 (U32, gain=1000)
-	 */
-	async readRatedPower(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU32(30073, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+/**
+ * Control register written by each action (see SUN2000_CONTROL_REGISTERS)
+ */
+const CONTROL_ACTION_REGISTERS: Record<Sun2000ControlAction, string> = {
+	activePowerPercent: 'activePowerPercentDerating',
+	activePowerFixed: 'activePowerFixedDerating',
+	powerFactor: 'reactivePowerPowerFactor',
+	reactivePowerRatio: 'reactivePowerRatio',
+	powerOn: 'powerOn',
+	shutdown: 'shutdown',
+	batteryWorkingMode: 'batteryWorkingMode',
+	batteryMaxChargePower: 'batteryMaxChargePower',
+	batteryMaxDischargePower: 'batteryMaxDischargePower',
+	batteryGridCharging: 'batteryGridCharging',
+	batteryForcedCharge: 'batteryForcedCommand',
+	batteryForcedDischarge: 'batteryForcedCommand',
+	batteryStopForced: 'batteryForcedCommand',
+	batteryTouSchedule: 'batteryTouPeriods',
+};
 
-	// ============================================================================
-	// ENHANCED POWER & ENERGY DATA (Direct Access)
-	// ============================================================================
+/**
+ * Value written by command actions (write-only registers, no read-back)
+ */
+const COMMAND_ACTION_VALUES: Partial<Record<Sun2000ControlAction, number>> = {
+	powerOn: 0,
+	shutdown: 0,
+	batteryForcedCharge: 1,
+	batteryForcedDischarge: 2,
+	batteryStopForced: 0,
+};
 
-	/**
-	 * Read input power (direct register - more accurate than remapped)
-	 * Register: 32064-32065 (I32, gain=1000)
-	 */
-	async readInputPowerDirect(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI32(32064, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+/**
+ * One LUNA2000 time-of-use period, e.g. { start: '00:00', end: '06:00', mode: 'charge', days: ['mon', 'tue'] }
+ */
+export interface BatteryTouPeriod {
+	start: string;               // HH:MM
+	end: string;                 // HH:MM (24:00 = end of day)
+	mode: 'charge' | 'discharge';
+	days?: string[];             // sun, mon, tue, wed, thu, fri, sat (default: every day)
+}
 
-	/**
-	 * Read active power (direct register)
-	 * Register: 32080-32081 (I32, gain=1000)
-	 */
-	async readActivePowerDirect(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI32(32080, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+/**
+ * Extra inputs for battery actions
+ */
+export interface BatteryControlOptions {
+	durationMinutes?: number;    // Forced charge/discharge duration
+	schedule?: BatteryTouPeriod[]; // Time-of-use schedule
+}
 
-	/**
-	 * Read reactive power (direct register)
-	 * Register: 32082-32083 (I32, gain=1000)
-	 */
-	async readReactivePowerDirect(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI32(32082, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+export interface Sun2000ControlResult extends GuardedWriteResult {
+	unitId: number;
+	deviceName?: string;
+	action: Sun2000ControlAction;
+	deviceStatus?: number;       // Device status after a power-on/shutdown command
+	deviceStatusText?: string;
+	settings?: GuardedWriteResult[]; // Parameter writes issued before a forced charge/discharge command
+}
 
-	/**
-	 * Read power factor (direct register)
-	 * Register: 32084 (I16, gain=1000)
-	 */
-	async readPowerFactorDirect(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI16(32084, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+const TOU_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
 
-	/**
-	 * Read peak power today
-	 * Register: 32078-32079 (I32, gain=1000)
-	 */
-	async readPeakPowerToday(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI32(32078, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
+/**
+ * Parse HH:MM into minutes since midnight (0-1440)
+ */
+function parseTouTime(time: string): number {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(String(time).trim());
+	const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+	if (!match || Number(match[2]) > 59 || minutes > 1440) {
+		throw new Error(`Invalid time "${time}", expected HH:MM`);
 	}
+	return minutes;
+}
 
-	/**
-	 * Read daily energy yield
-	 * Register: 32114-32115 (U32, gain=100)
-	 */
-	async readDailyEnergyYield(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU32(32114, deviceAddress);
-		return result.success ? result.data! / 100.0 : null;
+/**
+ * Encode a time-of-use schedule into the 43 words of the period registers (47255)
+ * Throws when a period is invalid or there are more than 14 periods
+ */
+export function encodeTouSchedule(periods: BatteryTouPeriod[]): number[] {
+	if (!Array.isArray(periods)) {
+		throw new Error('Time-of-use schedule must be an array of periods');
 	}
-
-	/**
-	 * Read total energy yield
-	 * Register: 32106-32107 (U32, gain=100)
-	 */
-	async readTotalEnergyYield(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU32(32106, deviceAddress);
-		return result.success ? result.data! / 100.0 : null;
+	if (periods.length > MAX_TOU_PERIODS) {
+		throw new Error(`Time-of-use schedule has ${periods.length} periods, at most ${MAX_TOU_PERIODS} are supported`);
 	}
 
-	/**
-	 * Read inverter efficiency
-	 * Register: 32086 (U16, gain=100)
-	 */
-	async readEfficiency(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(32086, deviceAddress);
-		return result.success ? result.data! / 100.0 : null;
-	}
+	const registers = new Array<number>(1 + MAX_TOU_PERIODS * 3).fill(0);
+	registers[0] = periods.length;
 
-	// ============================================================================
-	// GRID VOLTAGE & CURRENT MEASUREMENTS (Direct Access)
-	// ============================================================================
+	periods.forEach((period, index) => {
+		const start = parseTouTime(period.start);
+		const end = parseTouTime(period.end);
+		if (start >= end) {
+			throw new Error(`Period ${index + 1}: start ${period.start} must be before end ${period.end}`);
+		}
+		if (period.mode !== 'charge' && period.mode !== 'discharge') {
+			throw new Error(`Period ${index + 1}: mode must be "charge" or "discharge"`);
+		}
 
-	/**
-	 * Read grid line voltages (UAB, UBC, UCA)
-	 * Registers: 32066-32068 (U16, gain=10)
-	 */
-	async readGridLineVoltages(deviceAddress: number): Promise<{UAB?: number, UBC?: number, UCA?: number}> {
-		const result = await this.client.readHoldingRegisters(32066, 3, deviceAddress);
-		
-		if (!result.success || !result.data || result.data.length < 3) {
-			return {};
+		let dayMask = 0;
+		for (const day of period.days ?? TOU_DAYS) {
+			const bit = TOU_DAYS.indexOf(String(day).toLowerCase().slice(0, 3));
+			if (bit < 0) {
+				throw new Error(`Period ${index + 1}: unknown day "${day}"`);
+			}
+			dayMask |= 1 << bit;
 		}
 
-		return {
-			UAB: result.data[0] / 10.0,
-			UBC: result.data[1] / 10.0,
-			UCA: result.data[2] / 10.0
-		};
-	}
+		const offset = 1 + index * 3;
+		registers[offset] = start;
+		registers[offset + 1] = end;
+		registers[offset + 2] = ((period.mode === 'discharge' ? 1 : 0) << 8) | dayMask;
+	});
 
-	/**
-	 * Read grid phase voltages (A, B, C)
-	 * Registers: 32069-32071 (U16, gain=10)
-	 */
-	async readGridPhaseVoltages(deviceAddress: number): Promise<{A?: number, B?: number, C?: number}> {
-		const result = await this.client.readHoldingRegisters(32069, 3, deviceAddress);
-		
-		if (!result.success || !result.data || result.data.length < 3) {
-			return {};
-		}
+	return registers;
+}
 
-		return {
-			A: result.data[0] / 10.0,
-			B: result.data[1] / 10.0,
-			C: result.data[2] / 10.0
-		};
-	}
+/**
+ * SUN2000 Inverter Functions Class
+ * Supports both remapped register access and direct register access for comprehensive data
+ */
+export class SUN2000Functions {
+	constructor(
+		private client: HuaweiModbusClient,
+		private writeGuard: WriteGuard = new WriteGuard(client, 'sun2000'),
+		private connectionMode: Sun2000ConnectionMode = 'smartLogger'
+	) {}
 
 	/**
-	 * Read grid phase currents (A, B, C)
-	 * Registers: 32072-32077 (I32, gain=1000)
+	 * Read a single direct-access field by its descriptive name (e.g. 'dailyEnergyYield')
+	 * Address, type and gain come from SUN2000_REGISTERS
 	 */
-	async readGridPhaseCurrents(deviceAddress: number): Promise<{A?: number, B?: number, C?: number}> {
-		const result = await this.client.readHoldingRegisters(32072, 6, deviceAddress);
-		
-		if (!result.success || !result.data || result.data.length < 6) {
-			return {};
+	async readField(name: string, deviceAddress: number): Promise<DecodedValue | null> {
+		const definition = findRegister(SUN2000_REGISTERS, name);
+		if (!definition) {
+			return null;
 		}
 
-		return {
-			A: combineI32RegistersLE(result.data[0], result.data[1]) / 1000.0,
-			B: combineI32RegistersLE(result.data[2], result.data[3]) / 1000.0,
-			C: combineI32RegistersLE(result.data[4], result.data[5]) / 1000.0
-		};
-	}
-
-	/**
-	 * Read grid frequency
-	 * Register: 32085 (U16, gain=100)
-	 */
-	async readGridFrequency(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(32085, deviceAddress);
-		return result.success ? result.data! / 100.0 : null;
+		const values = await readRegisters(this.client, [definition], deviceAddress);
+		return values[definition.name] ?? null;
 	}
 
 	// ============================================================================
@@ -287,8 +319,8 @@ export class SUN2000Functions {
 	async readPVStrings(deviceAddress: number, stringCount?: number, useIEC?: boolean): Promise<Array<any>> {
 		// If string count not provided, try to read it first
 		if (!stringCount) {
-			const detectedStringCount = await this.readNumberOfStrings(deviceAddress);
-			if (detectedStringCount !== null && detectedStringCount > 0) {
+			const detectedStringCount = await this.readField('numberOfStrings', deviceAddress);
+			if (typeof detectedStringCount === 'number' && detectedStringCount > 0) {
 				stringCount = detectedStringCount;
 			} else {
 				stringCount = 4; // Default to 4 strings if can't determine
@@ -296,40 +328,39 @@ export class SUN2000Functions {
 		}
 
 		// Limit to 24 strings maximum as per documentation
-		stringCount = Math.min(stringCount, 24);
+		stringCount = Math.min(stringCount, MAX_PV_STRINGS);
+
+		const snapshot = await this.client.readRegisterRanges(
+			[{ address: PV_STRING_BASE_REGISTER, count: stringCount * 2 }],
+			deviceAddress
+		);
 
+		return this.decodePVStrings(snapshot, stringCount, useIEC);
+	}
+
+	/**
+	 * Decode PV string voltage/current pairs from a register snapshot
+	 */
+	private decodePVStrings(snapshot: RegisterSnapshot, stringCount: number, useIEC?: boolean): Array<any> {
 		const strings: Array<any> = [];
 
-		// Read strings in batches to minimize requests
-		const batchSize = 10; // Read 10 strings at a time (20 registers)
-		
-		for (let i = 0; i < stringCount; i += batchSize) {
-			const remainingStrings = Math.min(batchSize, stringCount - i);
-			const startRegister = 32016 + (i * 2); // PV1 starts at 32016
-			const registerCount = remainingStrings * 2;
-
-			const result = await this.client.readHoldingRegisters(startRegister, registerCount, deviceAddress);
-			
-			if (result.success && result.data) {
-				for (let j = 0; j < remainingStrings; j++) {
-					const voltageIndex = j * 2;
-					const currentIndex = j * 2 + 1;
-					
-					if (voltageIndex < result.data.length && currentIndex < result.data.length) {
-						const voltage = toSignedInt16(result.data[voltageIndex]) / 10.0;
-						const current = toSignedInt16(result.data[currentIndex]) / 100.0;
-						const power = voltage * current; // Calculate power in watts
-						
-						const stringData: any = {
-							[useIEC ? 'n' : 'stringNumber']: i + j + 1,
-							[useIEC ? 'U' : 'voltage']: voltage,
-							[useIEC ? 'I' : 'current']: current,
-							[useIEC ? 'P' : 'power']: power
-						};
-						
-						strings.push(stringData);
-					}
-				}
+		for (let i = 0; i < stringCount; i++) {
+			const voltageRaw = snapshot.getI16(PV_STRING_BASE_REGISTER + (i * 2));
+			const currentRaw = snapshot.getI16(PV_STRING_BASE_REGISTER + 1 + (i * 2));
+
+			if (voltageRaw !== null && currentRaw !== null) {
+				const voltage = voltageRaw / 10.0;
+				const current = currentRaw / 100.0;
+				const power = voltage * current; // Calculate power in watts
+
+				const stringData: any = {
+					[fieldName(PV_STRING_FIELDS.stringNumber, useIEC)]: i + 1,
+					[fieldName(PV_STRING_FIELDS.voltage, useIEC)]: voltage,
+					[fieldName(PV_STRING_FIELDS.current, useIEC)]: current,
+					[fieldName(PV_STRING_FIELDS.power, useIEC)]: power
+				};
+
+				strings.push(stringData);
 			}
 		}
 
@@ -337,146 +368,95 @@ export class SUN2000Functions {
 	}
 
 	// ============================================================================
-	// STATUS & TEMPERATURE (Direct Access)
+	// BATTERY PACK DATA (Direct Access)
 	// ============================================================================
 
 	/**
-	 * Read device status
-	 * Register: 32089 (ENUM16)
+	 * Register ranges of the per-pack SOC and temperature registers
 	 */
-	async readDeviceStatus(deviceAddress: number): Promise<{code?: number, text?: string}> {
-		const result = await this.client.readU16(32089, deviceAddress);
-		
-		if (!result.success || result.data === undefined) {
-			return {};
-		}
+	private getBatteryPackRanges(): RegisterRange[] {
+		const ranges: RegisterRange[] = [];
 
-		const code = result.data;
-		let text = 'Unknown';
-
-		switch (code) {
-			case 0x0000: text = 'Standby: initializing'; break;
-			case 0x0200: text = 'On-grid'; break;
-			case 0x0201: text = 'Grid connection: power limited'; break;
-			case 0x0300: text = 'Shutdown: fault'; break;
-			case 0x0500: text = 'Spot-check ready'; break;
-			default: text = `Unknown status (0x${code.toString(16).toUpperCase()})`;
+		for (let i = 0; i < MAX_BATTERY_PACKS; i++) {
+			ranges.push({ address: BATTERY_PACK_SOC_BASE_REGISTER + (i * BATTERY_PACK_SOC_STRIDE), count: 1 });
+			ranges.push({ address: BATTERY_PACK_TEMPERATURE_BASE_REGISTER + (i * 2), count: 2 });
 		}
 
-		return { code, text };
+		return ranges;
 	}
 
 	/**
-	 * Read running status bitfield
-	 * Register: 32002 (Bitfield16)
+	 * Decode per-pack SOC and max/min temperature from a register snapshot
+	 * Packs that are not installed read as all zeros and are skipped
 	 */
-	async readRunningStatus(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(32002, deviceAddress);
-		return result.success ? result.data! : null;
+	private decodeBatteryPacks(snapshot: RegisterSnapshot, useIEC?: boolean): Array<any> {
+		const packs: Array<any> = [];
+
+		for (let i = 0; i < MAX_BATTERY_PACKS; i++) {
+			const socRaw = snapshot.getU16(BATTERY_PACK_SOC_BASE_REGISTER + (i * BATTERY_PACK_SOC_STRIDE));
+			const maxTemperatureRaw = snapshot.getI16(BATTERY_PACK_TEMPERATURE_BASE_REGISTER + (i * 2));
+			const minTemperatureRaw = snapshot.getI16(BATTERY_PACK_TEMPERATURE_BASE_REGISTER + 1 + (i * 2));
+
+			if (socRaw === null || (socRaw === 0 && !maxTemperatureRaw && !minTemperatureRaw)) {
+				continue;
+			}
+
+			const packData: any = {
+				[fieldName(BATTERY_PACK_FIELDS.packNumber, useIEC)]: i + 1,
+				[fieldName(BATTERY_PACK_FIELDS.stateOfCharge, useIEC)]: socRaw / 10.0,
+			};
+
+			if (maxTemperatureRaw !== null) {
+				packData[fieldName(BATTERY_PACK_FIELDS.maxTemperature, useIEC)] = maxTemperatureRaw / 10.0;
+			}
+			if (minTemperatureRaw !== null) {
+				packData[fieldName(BATTERY_PACK_FIELDS.minTemperature, useIEC)] = minTemperatureRaw / 10.0;
+			}
+
+			packs.push(packData);
+		}
+
+		return packs;
 	}
 
+	// ============================================================================
+	// STATUS & ALARM DECODING
+	// ============================================================================
+
 	/**
-	 * Read internal temperature
-	 * Register: 32087 (I16, gain=10)
+	 * Decode device status code into human readable text (see DEVICE_STATUS_CODES)
 	 */
-	async readInternalTemperature(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readI16(32087, deviceAddress);
-		return result.success ? result.data! / 10.0 : null;
+	private decodeDeviceStatus(code: number): string {
+		return DEVICE_STATUS_CODES[code] ?? `Unknown status (0x${code.toString(16).toUpperCase()})`;
 	}
 
 	/**
-	 * Read insulation resistance (direct register)
-	 * Register: 32088 (U16, gain=1000)
+	 * Decode the operating state (32000) and running status (32002) bitfields into named flags
+	 * A bitfield that was not read leaves its flags out
 	 */
-	async readInsulationResistanceDirect(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(32088, deviceAddress);
-		return result.success ? result.data! / 1000.0 : null;
-	}
+	private decodeRunningStatus(operatingState?: number, runningStatus?: number): Record<string, boolean> {
+		const flags: Record<string, boolean> = {};
 
-	// ============================================================================
-	// ALARM SYSTEM (Direct Access)
-	// ============================================================================
+		if (operatingState !== undefined) {
+			OPERATING_STATE_FLAGS.forEach((flag, bit) => {
+				flags[flag] = (operatingState & (1 << bit)) !== 0;
+			});
+		}
 
-	/**
-	 * Read all alarm registers and decode them
-	 * Registers: 32008 (Alarm1), 32009 (Alarm2), 32010 (Alarm3)
-	 */
-	async readAlarms(deviceAddress: number): Promise<{alarm1?: number, alarm2?: number, alarm3?: number, alarmTexts?: string[]}> {
-		const result = await this.client.readHoldingRegisters(32008, 3, deviceAddress);
-		
-		if (!result.success || !result.data || result.data.length < 3) {
-			return {};
+		if (runningStatus !== undefined) {
+			RUNNING_STATUS_FLAGS.forEach((flag, bit) => {
+				flags[flag] = (runningStatus & (1 << bit)) !== 0;
+			});
 		}
 
-		const alarm1 = result.data[0];
-		const alarm2 = result.data[1];
-		const alarm3 = result.data[2];
-		const alarmTexts: string[] = [];
-
-		// Decode Alarm 1 bits
-		if (alarm1 & (1 << 0)) alarmTexts.push('High String Input Voltage (Major)');
-		if (alarm1 & (1 << 1)) alarmTexts.push('DC Arc Fault (Major)');
-		if (alarm1 & (1 << 2)) alarmTexts.push('String Reverse Connection (Major)');
-		if (alarm1 & (1 << 3)) alarmTexts.push('String Current Backfeed (Warning)');
-		if (alarm1 & (1 << 4)) alarmTexts.push('Abnormal String Power (Warning)');
-		if (alarm1 & (1 << 5)) alarmTexts.push('AFCI Self-Check Fail (Major)');
-		if (alarm1 & (1 << 6)) alarmTexts.push('Phase Wire Short-Circuited to PE (Major)');
-		if (alarm1 & (1 << 7)) alarmTexts.push('Grid Loss (Major)');
-		if (alarm1 & (1 << 8)) alarmTexts.push('Grid Undervoltage (Major)');
-		if (alarm1 & (1 << 9)) alarmTexts.push('Grid Overvoltage (Major)');
-		if (alarm1 & (1 << 10)) alarmTexts.push('Grid Voltage Imbalance (Major)');
-		if (alarm1 & (1 << 11)) alarmTexts.push('Grid Overfrequency (Major)');
-		if (alarm1 & (1 << 12)) alarmTexts.push('Grid Underfrequency (Major)');
-		if (alarm1 & (1 << 13)) alarmTexts.push('Unstable Grid Frequency (Major)');
-		if (alarm1 & (1 << 14)) alarmTexts.push('Output Overcurrent (Major)');
-		if (alarm1 & (1 << 15)) alarmTexts.push('Output DC Component Overhigh (Major)');
-
-		// Decode Alarm 2 bits
-		if (alarm2 & (1 << 0)) alarmTexts.push('Abnormal Residual Current (Major)');
-		if (alarm2 & (1 << 1)) alarmTexts.push('Abnormal Grounding (Major)');
-		if (alarm2 & (1 << 2)) alarmTexts.push('Low Insulation Resistance (Major)');
-		if (alarm2 & (1 << 3)) alarmTexts.push('Overtemperature (Minor)');
-		if (alarm2 & (1 << 4)) alarmTexts.push('Device Fault (Major)');
-		if (alarm2 & (1 << 5)) alarmTexts.push('Upgrade Failed or Version Mismatch (Minor)');
-		if (alarm2 & (1 << 6)) alarmTexts.push('License Expired (Warning)');
-		if (alarm2 & (1 << 7)) alarmTexts.push('Faulty Monitoring Unit (Minor)');
-		if (alarm2 & (1 << 8)) alarmTexts.push('Faulty Power Collector (Major)');
-		if (alarm2 & (1 << 9)) alarmTexts.push('Battery Abnormal (Minor)');
-		if (alarm2 & (1 << 10)) alarmTexts.push('Active Islanding (Major)');
-		if (alarm2 & (1 << 11)) alarmTexts.push('Passive Islanding (Major)');
-		if (alarm2 & (1 << 12)) alarmTexts.push('Transient AC Overvoltage (Major)');
-		if (alarm2 & (1 << 13)) alarmTexts.push('Peripheral Port Short Circuit (Warning)');
-		if (alarm2 & (1 << 14)) alarmTexts.push('Churn Output Overload (Major)');
-		if (alarm2 & (1 << 15)) alarmTexts.push('Abnormal PV Module Configuration (Major)');
-
-		// Decode Alarm 3 bits
-		if (alarm3 & (1 << 0)) alarmTexts.push('Optimizer Fault (Warning)');
-		if (alarm3 & (1 << 1)) alarmTexts.push('Built-in PID Operation Abnormal (Minor)');
-		if (alarm3 & (1 << 2)) alarmTexts.push('High Input String Voltage to Ground (Major)');
-		if (alarm3 & (1 << 3)) alarmTexts.push('External Fan Abnormal (Major)');
-		if (alarm3 & (1 << 4)) alarmTexts.push('Battery Reverse Connection (Major)');
-		if (alarm3 & (1 << 5)) alarmTexts.push('On-grid/Off-grid Controller Abnormal (Major)');
-		if (alarm3 & (1 << 6)) alarmTexts.push('PV String Loss (Warning)');
-		if (alarm3 & (1 << 7)) alarmTexts.push('Internal Fan Abnormal (Major)');
-		if (alarm3 & (1 << 8)) alarmTexts.push('DC Protection Unit Abnormal (Major)');
-		if (alarm3 & (1 << 9)) alarmTexts.push('EL Unit Abnormal (Minor)');
-		if (alarm3 & (1 << 10)) alarmTexts.push('Active Adjustment Instruction Abnormal (Major)');
-		if (alarm3 & (1 << 11)) alarmTexts.push('Reactive Adjustment Instruction Abnormal (Major)');
-		if (alarm3 & (1 << 12)) alarmTexts.push('CT Wiring Abnormal (Major)');
-		if (alarm3 & (1 << 13)) alarmTexts.push('DC Arc Fault (ADMC - Manual Clear Required) (Major)');
-		if (alarm3 & (1 << 14)) alarmTexts.push('DC Switch Abnormal (Minor)');
-		if (alarm3 & (1 << 15)) alarmTexts.push('Low Battery Discharge Capacity (Warning)');
-
-		return { alarm1, alarm2, alarm3, alarmTexts };
+		return flags;
 	}
 
 	/**
-	 * Read fault code
-	 * Register: 32090 (U16)
+	 * Decode alarm register bits into structured alarms (see SUN2000_ALARMS)
 	 */
-	async readFaultCode(deviceAddress: number): Promise<number | null> {
-		const result = await this.client.readU16(32090, deviceAddress);
-		return result.success ? result.data! : null;
+	private decodeAlarms(alarm1: number, alarm2: number, alarm3: number): AlarmDefinition[] {
+		return decodeAlarms(SUN2000_ALARMS, { alarm1, alarm2, alarm3 });
 	}
 
 	// ============================================================================
@@ -493,7 +473,11 @@ export class SUN2000Functions {
 
 	/**
 	 * Read comprehensive inverter data using direct register access
-	 * Combines basic remapped data with enhanced direct register data
+	 * Combines basic remapped data (or its 32000-range equivalents in direct
+	 * connection mode) with enhanced direct register data.
+	 * The register map for the selected categories is read through the
+	 * read planner, so a full poll takes a handful of block reads. PV strings
+	 * follow in one more read sized by the reported number of strings.
 	 */
 	async readInverterData(deviceAddress: number, deviceName?: string, dataCategories?: string[], alwaysIncludeAlarmTexts?: boolean, useIEC?: boolean): Promise<any> {
 		const result: any = {
@@ -502,110 +486,80 @@ export class SUN2000Functions {
 		};
 
 		try {
-			// Always read basic power data via remapped registers (for backward compatibility)
-			await this.readRemappedData(result, deviceAddress, useIEC);
+			// Basic power data: remapped registers via the SmartLogger (for backward compatibility),
+			// or the equivalent 32000-range registers when connected directly
+			if (this.connectionMode === 'smartLogger') {
+				await this.readRemappedData(result, deviceAddress, useIEC);
+			}
 
 			// Read enhanced data based on categories (default to all if not specified)
 			const categories = dataCategories || ['device', 'power', 'voltages', 'currents', 'strings', 'status', 'alarms'];
+			const definitions = [
+				...(this.connectionMode === 'direct' ? SUN2000_DIRECT_TELEMETRY_REGISTERS : []),
+				...registersForCategories(SUN2000_REGISTERS, categories),
+			];
+			const numberOfStrings = findRegister(SUN2000_REGISTERS, 'numberOfStrings')!;
+			const ranges: RegisterRange[] = toRegisterRanges(definitions);
 
-			// Device identification
-			if (categories.includes('device')) {
-				const [model, serialNumber, firmwareVersion, numberOfStrings, ratedPower] = await Promise.all([
-					this.readDeviceModel(deviceAddress),
-					this.readSerialNumber(deviceAddress),
-					this.readFirmwareVersion(deviceAddress),
-					this.readNumberOfStrings(deviceAddress),
-					this.readRatedPower(deviceAddress)
-				]);
-
-				if (model) result.model = model;
-				if (serialNumber) result.serialNumber = serialNumber;
-				if (firmwareVersion) result.firmwareVersion = firmwareVersion;
-				if (numberOfStrings !== null) result.numberOfStrings = numberOfStrings;
-				if (ratedPower !== null) result.ratedPower = ratedPower;
+			if (categories.includes('strings')) {
+				ranges.push(...toRegisterRanges([numberOfStrings]));
 			}
 
-			// Enhanced power and energy data
-			if (categories.includes('power')) {
-				const [peakPowerToday, dailyEnergyYield, totalEnergyYield, efficiency] = await Promise.all([
-					this.readPeakPowerToday(deviceAddress),
-					this.readDailyEnergyYield(deviceAddress),
-					this.readTotalEnergyYield(deviceAddress),
-					this.readEfficiency(deviceAddress)
-				]);
-
-				if (peakPowerToday !== null) result[useIEC ? 'Pmax' : 'peakPowerToday'] = peakPowerToday;
-				if (dailyEnergyYield !== null) result[useIEC ? 'EPId' : 'dailyEnergyYield'] = dailyEnergyYield;
-				if (totalEnergyYield !== null) result[useIEC ? 'EPI' : 'totalEnergyYield'] = totalEnergyYield;
-				if (efficiency !== null) result[useIEC ? 'eff' : 'efficiency'] = efficiency;
+			if (categories.includes('battery')) {
+				ranges.push(...this.getBatteryPackRanges());
 			}
 
-			// Grid voltages
-			if (categories.includes('voltages')) {
-				const [lineVoltages, phaseVoltages] = await Promise.all([
-					this.readGridLineVoltages(deviceAddress),
-					this.readGridPhaseVoltages(deviceAddress)
-				]);
-
-				if (lineVoltages.UAB !== undefined) result[useIEC ? 'Uab' : 'gridVoltageUAB'] = lineVoltages.UAB;
-				if (lineVoltages.UBC !== undefined) result[useIEC ? 'Ubc' : 'gridVoltageUBC'] = lineVoltages.UBC;
-				if (lineVoltages.UCA !== undefined) result[useIEC ? 'Uca' : 'gridVoltageUCA'] = lineVoltages.UCA;
-				if (phaseVoltages.A !== undefined) result[useIEC ? 'Ua' : 'phaseAVoltage'] = phaseVoltages.A;
-				if (phaseVoltages.B !== undefined) result[useIEC ? 'Ub' : 'phaseBVoltage'] = phaseVoltages.B;
-				if (phaseVoltages.C !== undefined) result[useIEC ? 'Uc' : 'phaseCVoltage'] = phaseVoltages.C;
-			}
+			const registers = await this.client.readRegisterRanges(ranges, deviceAddress, { gaps: SUN2000_REGISTER_GAPS });
 
-			// Grid currents and frequency
-			if (categories.includes('currents')) {
-				const [phaseCurrents, gridFrequency] = await Promise.all([
-					this.readGridPhaseCurrents(deviceAddress),
-					this.readGridFrequency(deviceAddress)
-				]);
-
-				if (phaseCurrents.A !== undefined) result[useIEC ? 'Ia' : 'phaseACurrent'] = phaseCurrents.A;
-				if (phaseCurrents.B !== undefined) result[useIEC ? 'Ib' : 'phaseBCurrent'] = phaseCurrents.B;
-				if (phaseCurrents.C !== undefined) result[useIEC ? 'Ic' : 'phaseCCurrent'] = phaseCurrents.C;
-				if (gridFrequency !== null) result[useIEC ? 'Fr' : 'gridFrequency'] = gridFrequency;
+			// Nothing answered on the inverter's own unit ID: report why instead of remapped data only
+			const failure = registers.getFailures()[0];
+			if (registers.isEmpty() && failure?.errorInfo) {
+				result.error = isDeviceUnreachable(failure.errorInfo)
+					? `Inverter ${deviceAddress} not responding: ${failure.errorInfo.message}`
+					: `Failed to read inverter ${deviceAddress}: ${failure.errorInfo.message}`;
+				result.errorInfo = failure.errorInfo;
+				return result;
 			}
 
-			// PV string data
+			Object.assign(result, decodeRegisters(definitions, registers, useIEC));
+
+			// PV string data, read for the number of strings the inverter reports
 			if (categories.includes('strings')) {
-				const pvStrings = await this.readPVStrings(deviceAddress, result.numberOfStrings, useIEC);
+				const detectedStringCount = registers.getU16(numberOfStrings.address);
+				const pvStrings = await this.readPVStrings(deviceAddress, detectedStringCount || 4, useIEC); // Default to 4 strings if can't determine
 				if (pvStrings.length > 0) {
-					result[useIEC ? 'pv' : 'pvStrings'] = pvStrings;
+					result[fieldName(PV_STRINGS_FIELD, useIEC)] = pvStrings;
+				}
+			}
+
+			// Battery pack data
+			if (categories.includes('battery')) {
+				const batteryPacks = this.decodeBatteryPacks(registers, useIEC);
+				if (batteryPacks.length > 0) {
+					result[fieldName(BATTERY_PACKS_FIELD, useIEC)] = batteryPacks;
 				}
 			}
 
-			// Status and temperature
-			if (categories.includes('status')) {
-				const [deviceStatus, runningStatus, internalTemp, insulationResistance] = await Promise.all([
-					this.readDeviceStatus(deviceAddress),
-					this.readRunningStatus(deviceAddress),
-					this.readInternalTemperature(deviceAddress),
-					this.readInsulationResistanceDirect(deviceAddress)
-				]);
-
-				if (deviceStatus.code !== undefined) result.deviceStatus = deviceStatus.code;
-				if (deviceStatus.text) result.deviceStatusText = deviceStatus.text;
-				if (runningStatus !== null) result.runningStatus = runningStatus;
-				if (internalTemp !== null) result[useIEC ? 'TempInt' : 'internalTemperature'] = internalTemp;
-				if (insulationResistance !== null) result.insulationResistance = insulationResistance;
+			// Human readable device status and running-status flags
+			if (result.deviceStatus !== undefined) {
+				result.deviceStatusText = this.decodeDeviceStatus(result.deviceStatus);
+			}
+			if (result.operatingState !== undefined || result.runningStatus !== undefined) {
+				result.runningStatusFlags = this.decodeRunningStatus(result.operatingState, result.runningStatus);
 			}
 
-			// Alarms and faults
+			// Decoded alarms (structured, per-severity counts and legacy texts)
 			if (categories.includes('alarms')) {
-				const [alarms, faultCode] = await Promise.all([
-					this.readAlarms(deviceAddress),
-					this.readFaultCode(deviceAddress)
-				]);
-
-				if (alarms.alarm1 !== undefined) result.alarm1 = alarms.alarm1;
-				if (alarms.alarm2 !== undefined) result.alarm2 = alarms.alarm2;
-				if (alarms.alarm3 !== undefined) result.alarm3 = alarms.alarm3;
-				if (alwaysIncludeAlarmTexts || (alarms.alarmTexts && alarms.alarmTexts.length > 0)) {
-					result.alarmTexts = alarms.alarmTexts || [];
+				const alarms = result.alarm1 !== undefined
+					? this.decodeAlarms(result.alarm1, result.alarm2 ?? 0, result.alarm3 ?? 0)
+					: [];
+				if (result.alarm1 !== undefined) {
+					result.alarmCounts = countAlarmsBySeverity(alarms);
+				}
+				if (alwaysIncludeAlarmTexts || alarms.length > 0) {
+					result.alarms = alarms;
+					result.alarmTexts = alarms.map(formatAlarmText);
 				}
-				if (faultCode !== null) result.faultCode = faultCode;
 			}
 
 		} catch (error) {
@@ -617,71 +571,133 @@ export class SUN2000Functions {
 
 	/**
 	 * Read basic remapped register data (for backward compatibility)
+	 * Offsets 0-17 are read from unit 0 as a single planned block
 	 */
 	private async readRemappedData(result: any, deviceAddress: number, useIEC?: boolean): Promise<void> {
 		try {
-			// Read power data (offsets 0-8)
-			const baseRegister = this.getRemappedRegister(deviceAddress, 0);
-			
-			// Try to read multiple registers at once for efficiency
-			// Registers 0-8: Active Power (I32), Reactive Power (I32), DC Current (I16), Input Power (U32), Insulation (U16), Power Factor (I16)
-			const powerResult = await this.client.readHoldingRegisters(baseRegister, 9, 0);
-			
-			if (powerResult.success && powerResult.data && powerResult.data.length >= 9) {
-				const registers = powerResult.data;
-				
-				// Active Power: Offset 0-1 (I32, gain=1000)
-				const activePowerRaw = combineI32RegistersLE(registers[0], registers[1]);
-				result[useIEC ? 'P' : 'activePower'] = activePowerRaw / 1000.0;
-				
-				// Reactive Power: Offset 2-3 (I32, gain=1000)
-				const reactivePowerRaw = combineI32RegistersLE(registers[2], registers[3]);
-				result[useIEC ? 'Q' : 'reactivePower'] = reactivePowerRaw / 1000.0;
-				
-				// DC Current: Offset 4 (I16, gain=100)
-				result[useIEC ? 'dcI' : 'dcCurrent'] = toSignedInt16(registers[4]) / 100.0;
-				
-				// Input Power: Offset 5-6 (U32, gain=1000)
-				const inputPowerRaw = combineU32RegistersLE(registers[5], registers[6]);
-				result[useIEC ? 'dcP' : 'inputPower'] = inputPowerRaw / 1000.0;
-				
-				// Power Factor: Offset 8 (I16, gain=1000)
-				result[useIEC ? 'PF' : 'powerFactor'] = toSignedInt16(registers[8]) / 1000.0;
-			}
+			const definitions = offsetRegisters(SUN2000_REMAPPED_REGISTERS, this.getRemappedRegister(deviceAddress, 0));
+			Object.assign(result, await readRegisters(this.client, definitions, 0, useIEC));
+		} catch (error) {
+			// Don't throw here, just let the main method handle errors
+		}
+	}
+
+	// ============================================================================
+	// CONTROL (Direct Access)
+	// ============================================================================
 
-			// Read status and temperature (offsets 9, 11)
-			const statusRegister = this.getRemappedRegister(deviceAddress, 9);
-			const statusResult = await this.client.readU16(statusRegister, 0);
-			if (statusResult.success) {
-				result.status = statusResult.data!;
+	/**
+	 * Apply a control action (power derating, reactive power, power-on/shutdown, battery
+	 * settings) to an inverter
+	 * Setpoints are verified by reading the register back; power-on/shutdown registers are
+	 * write-only, so the device status is read instead once the command has been accepted.
+	 * Forced charge/discharge first writes the setting mode, power and duration, then the command.
+	 * Throws when a time-of-use schedule cannot be encoded (see encodeTouSchedule).
+	 */
+	async applyControl(
+		deviceAddress: number,
+		action: Sun2000ControlAction,
+		value: number = 0,
+		verify: boolean = true,
+		deviceName?: string,
+		options: BatteryControlOptions = {}
+	): Promise<Sun2000ControlResult> {
+		const definition = findRegister(SUN2000_CONTROL_REGISTERS, CONTROL_ACTION_REGISTERS[action])!;
+		const commandValue = COMMAND_ACTION_VALUES[action];
+		const isCommand = commandValue !== undefined;
+		const writeOptions = { verify: verify && !isCommand, verifyDelay: 500 };
+
+		const toControlResult = (result: GuardedWriteResult): Sun2000ControlResult => ({
+			unitId: deviceAddress,
+			...(deviceName && { deviceName }),
+			action,
+			...result,
+		});
+
+		let settings: GuardedWriteResult[] | undefined;
+		if (action === 'batteryForcedCharge' || action === 'batteryForcedDischarge') {
+			settings = await this.writeForcedSettings(deviceAddress, action, value, options.durationMinutes ?? 0, verify);
+			const failed = settings.find(setting => !setting.success);
+			if (failed) {
+				return { ...toControlResult(failed), settings };
 			}
+		}
+
+		let result: GuardedWriteResult;
+		if (action === 'batteryTouSchedule') {
+			const registers = encodeTouSchedule(options.schedule ?? []);
+			result = await this.writeGuard.writeEncoded(definition, registers[0], registers, deviceAddress, writeOptions);
+		} else {
+			result = await this.writeGuard.write(definition, commandValue ?? value, deviceAddress, writeOptions);
+		}
+
+		const controlResult: Sun2000ControlResult = {
+			...toControlResult(result),
+			...(settings && { settings }),
+		};
 
-			const tempRegister = this.getRemappedRegister(deviceAddress, 11);
-			const tempResult = await this.client.readI16(tempRegister, 0);
-			if (tempResult.success) {
-				result[useIEC ? 'TempCab' : 'cabinetTemperature'] = tempResult.data! / 10.0;
+		if ((action === 'powerOn' || action === 'shutdown') && verify && result.success && !result.dryRun) {
+			// Give the inverter time to change state before reading the status
+			await new Promise(resolve => setTimeout(resolve, 2000));
+			const deviceStatus = await this.readField('deviceStatus', deviceAddress);
+			if (typeof deviceStatus === 'number') {
+				controlResult.deviceStatus = deviceStatus;
+				controlResult.deviceStatusText = this.decodeDeviceStatus(deviceStatus);
+				controlResult.readBackValue = controlResult.deviceStatusText;
 			}
+		}
 
-			// Read fault data (offsets 12-17)
-			const faultRegister = this.getRemappedRegister(deviceAddress, 12);
-			const faultResult = await this.client.readHoldingRegisters(faultRegister, 6, 0);
-			
-			if (faultResult.success && faultResult.data && faultResult.data.length >= 6) {
-				const faultRegisters = faultResult.data;
-				
-				// Major Fault: Offset 12-13 (U32)
-				result.majorFault = combineU32RegistersLE(faultRegisters[0], faultRegisters[1]);
-				
-				// Minor Fault: Offset 14-15 (U32)
-				result.minorFault = combineU32RegistersLE(faultRegisters[2], faultRegisters[3]);
-				
-				// Warning: Offset 16-17 (U32)
-				result.warning = combineU32RegistersLE(faultRegisters[4], faultRegisters[5]);
+		return controlResult;
+	}
+
+	/**
+	 * Write the forced charge/discharge parameters (duration mode, power, duration)
+	 * Stops at the first write that does not succeed
+	 */
+	private async writeForcedSettings(
+		deviceAddress: number,
+		action: 'batteryForcedCharge' | 'batteryForcedDischarge',
+		powerKw: number,
+		durationMinutes: number,
+		verify: boolean
+	): Promise<GuardedWriteResult[]> {
+		const settings: Array<[string, number]> = [
+			['batteryForcedSettingMode', 0],
+			[action === 'batteryForcedCharge' ? 'batteryForcedChargePower' : 'batteryForcedDischargePower', powerKw],
+			['batteryForcedDuration', durationMinutes],
+		];
+		const results: GuardedWriteResult[] = [];
+
+		for (const [name, value] of settings) {
+			const definition = findRegister(SUN2000_CONTROL_REGISTERS, name)!;
+			const result = await this.writeGuard.write(definition, value, deviceAddress, { verify, verifyDelay: 500 });
+			results.push(result);
+			if (!result.success) {
+				break;
 			}
+		}
 
-		} catch (error) {
-			// Don't throw here, just let the main method handle errors
+		return results;
+	}
+
+	/**
+	 * Apply a control action to multiple inverters
+	 * Processes them sequentially, one write at a time per inverter
+	 */
+	async controlMultipleInverters(
+		devices: Array<{unitId: number, deviceAddress: number, deviceName?: string}>,
+		action: Sun2000ControlAction,
+		value?: number,
+		verify?: boolean,
+		options?: BatteryControlOptions
+	): Promise<Sun2000ControlResult[]> {
+		const results: Sun2000ControlResult[] = [];
+
+		for (const device of devices) {
+			results.push(await this.applyControl(device.deviceAddress, action, value, verify, device.deviceName, options));
 		}
+
+		return results;
 	}
 
 	/**
@@ -0,0 +1,114 @@
+/**
+ * SUN2000 Output Items
+ *
+ * Turns flat inverter read results into the nested items emitted by the SUN2000
+ * node and the polling trigger: identification fields at the root and
+ * `telemetry`, `status`, `battery` and `meter` objects built from the
+ * register map output groups.
+ */
+
+import { FieldDefinition, fieldName, fieldNamesForGroup } from './register-map';
+import {
+	BATTERY_PACKS_FIELD,
+	PV_STRINGS_FIELD,
+	SUN2000_DIRECT_TELEMETRY_REGISTERS,
+	SUN2000_REGISTERS,
+	SUN2000_REMAPPED_REGISTERS,
+} from './sun2000-registers';
+
+const SUN2000_ALL_REGISTERS = [...SUN2000_REMAPPED_REGISTERS, ...SUN2000_DIRECT_TELEMETRY_REGISTERS, ...SUN2000_REGISTERS];
+
+/**
+ * Both output names of a derived field
+ */
+function bothNames(field: FieldDefinition): string[] {
+	return [fieldName(field), fieldName(field, true)];
+}
+
+// Helper functions for data classification and splitting
+// Field groups come from the register map; derived fields are listed explicitly
+function getTelemetryFields(): string[] {
+	return [
+		...fieldNamesForGroup(SUN2000_ALL_REGISTERS, 'telemetry'),
+		...bothNames(PV_STRINGS_FIELD)
+	];
+}
+
+function getStatusFields(): string[] {
+	return [
+		...fieldNamesForGroup(SUN2000_ALL_REGISTERS, 'status'),
+		'deviceStatusText', 'runningStatusFlags', 'alarms', 'alarmCounts', 'alarmTexts'
+	];
+}
+
+function getBatteryFields(): string[] {
+	return [
+		...fieldNamesForGroup(SUN2000_ALL_REGISTERS, 'battery'),
+		...bothNames(BATTERY_PACKS_FIELD)
+	];
+}
+
+function getMeterFields(): string[] {
+	return fieldNamesForGroup(SUN2000_ALL_REGISTERS, 'meter');
+}
+
+function getIdentificationFields(): string[] {
+	return ['unitId', 'deviceName', ...fieldNamesForGroup(SUN2000_ALL_REGISTERS, 'identification')];
+}
+
+/**
+ * Pick the fields present in the inverter data
+ */
+function pickFields(inverterData: any, fields: string[]): Record<string, any> {
+	return Object.fromEntries(
+		fields
+			.filter(field => inverterData[field] !== undefined)
+			.map(field => [field, inverterData[field]])
+	);
+}
+
+/**
+ * Nested item for one inverter: ts + identification at the root, grouped objects below
+ * Groups without any field are left out
+ */
+export function createNestedInverterData(inverterData: any, timestamp: string): any {
+	// Root level data: timestamp + device identification
+	const result: any = {
+		ts: timestamp,
+		...pickFields(inverterData, getIdentificationFields()),
+	};
+
+	const groups: Array<[string, string[]]> = [
+		['telemetry', getTelemetryFields()],
+		['status', getStatusFields()],
+		['battery', getBatteryFields()],   // LUNA2000
+		['meter', getMeterFields()],       // DTSU666
+	];
+
+	for (const [group, fields] of groups) {
+		const groupData = pickFields(inverterData, fields);
+		if (Object.keys(groupData).length > 0) {
+			result[group] = groupData;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Output item for one inverter read result
+ * Failed inverters produce a single error item instead of the nested structure
+ */
+export function createInverterItem(inverter: any, timestamp: string): any {
+	if (inverter.error) {
+		return {
+			ts: timestamp,
+			unitId: inverter.unitId,
+			deviceName: inverter.deviceName,
+			error: inverter.error,
+			...(inverter.errorInfo && { errorInfo: inverter.errorInfo })
+		};
+	}
+
+	return createNestedInverterData(inverter, timestamp);
+}
@@ -0,0 +1,359 @@
+/**
+ * Huawei SUN2000 Register Map
+ *
+ * Register definitions for SUN2000 inverters, grouped by data category.
+ * Direct registers are read from the inverter's own unit ID; remapped
+ * registers are offsets into the SmartLogger block read from unit 0.
+ */
+
+import { AlarmDefinition, AlarmSeverity } from './alarms';
+import { RegisterRange } from './modbus-utils';
+import { FieldDefinition, RegisterDefinition, defineRegister } from './register-map';
+
+/**
+ * LUNA2000 battery running status (register 37762)
+ */
+const BATTERY_RUNNING_STATUS: Record<number, string> = {
+	0: 'Offline',
+	1: 'Standby',
+	2: 'Running',
+	3: 'Fault',
+	4: 'Sleep mode',
+};
+
+/**
+ * Device status codes (register 32089)
+ */
+export const DEVICE_STATUS_CODES: Record<number, string> = {
+	0x0000: 'Standby: initializing',
+	0x0001: 'Standby: detecting insulation resistance',
+	0x0002: 'Standby: detecting irradiation',
+	0x0003: 'Standby: grid detecting',
+	0x0100: 'Starting',
+	0x0200: 'On-grid',
+	0x0201: 'Grid connection: power limited',
+	0x0202: 'Grid connection: self-derating',
+	0x0203: 'Off-grid running',
+	0x0300: 'Shutdown: fault',
+	0x0301: 'Shutdown: command',
+	0x0302: 'Shutdown: OVGR',
+	0x0303: 'Shutdown: communication disconnected',
+	0x0304: 'Shutdown: power limited',
+	0x0305: 'Shutdown: manual startup required',
+	0x0306: 'Shutdown: DC switches disconnected',
+	0x0307: 'Shutdown: rapid cutoff',
+	0x0308: 'Shutdown: input underpower',
+	0x0401: 'Grid scheduling: cosφ-P curve',
+	0x0402: 'Grid scheduling: Q-U curve',
+	0x0403: 'Grid scheduling: PF-U curve',
+	0x0404: 'Grid scheduling: dry contact',
+	0x0405: 'Grid scheduling: Q-P curve',
+	0x0500: 'Spot-check ready',
+	0x0501: 'Spot-checking',
+	0x0600: 'Inspecting',
+	0x0700: 'AFCI self-check',
+	0x0800: 'I-V scanning',
+	0x0900: 'DC input detection',
+	0x0A00: 'Running: off-grid charging',
+	0xA000: 'Standby: no irradiation',
+};
+
+/**
+ * Flag names of the operating state bitfield (register 32000), indexed by bit
+ */
+export const OPERATING_STATE_FLAGS: string[] = [
+	'standby',
+	'gridConnected',
+	'gridConnectedNormally',
+	'deratedByPowerRationing',
+	'deratedByInternalCause',
+	'normalStop',
+	'stoppedByFault',
+	'stoppedByPowerRationing',
+	'shutdown',
+	'spotCheck',
+];
+
+/**
+ * Flag names of the running status bitfield (register 32002), indexed by bit
+ */
+export const RUNNING_STATUS_FLAGS: string[] = [
+	'unlocked',
+	'pvConnected',
+	'dspCollectingData',
+];
+
+/**
+ * Power meter status (register 37100)
+ */
+const METER_STATUS: Record<number, string> = {
+	0: 'Offline',
+	1: 'Normal',
+};
+
+/**
+ * Power meter type (register 37125)
+ */
+const METER_TYPES: Record<number, string> = {
+	0: 'Single-phase',
+	1: 'Three-phase',
+};
+
+/**
+ * LUNA2000 battery working mode (register 47086)
+ */
+export const BATTERY_WORKING_MODES: Record<number, string> = {
+	0: 'Adaptive',
+	1: 'Fixed charge/discharge',
+	2: 'Maximise self-consumption',
+	3: 'Time of use (LG)',
+	4: 'Fully fed to grid',
+	5: 'Time of use (LUNA2000)',
+	6: 'Third-party dispatch',
+};
+
+/**
+ * Direct-access register definitions
+ */
+export const SUN2000_REGISTERS: RegisterDefinition[] = [
+	// Device identification
+	defineRegister({ name: 'model', address: 30000, length: 15, type: 'STR', description: 'Device model name', category: 'device', group: 'identification' }),
+	defineRegister({ name: 'serialNumber', address: 30015, length: 10, type: 'STR', description: 'Device serial number', category: 'device', group: 'identification' }),
+	defineRegister({ name: 'numberOfStrings', address: 30071, type: 'U16', description: 'Number of PV strings', category: 'device', group: 'telemetry' }),
+	defineRegister({ name: 'ratedPower', address: 30073, type: 'U32', gain: 1000, unit: 'kW', description: 'Rated power', category: 'device', group: 'telemetry' }),
+	defineRegister({ name: 'firmwareVersion', address: 31025, length: 15, type: 'STR', description: 'Firmware version', category: 'device' }),
+
+	// Power & energy
+	defineRegister({ name: 'peakPowerToday', iecName: 'Pmax', address: 32078, type: 'I32', gain: 1000, unit: 'kW', description: 'Peak active power today', category: 'power', group: 'telemetry' }),
+	defineRegister({ name: 'efficiency', iecName: 'eff', address: 32086, type: 'U16', gain: 100, unit: '%', description: 'Inverter efficiency', category: 'power', group: 'telemetry' }),
+	defineRegister({ name: 'totalEnergyYield', iecName: 'EPI', address: 32106, type: 'U32', gain: 100, unit: 'kWh', description: 'Total energy yield', category: 'power', group: 'telemetry' }),
+	defineRegister({ name: 'dailyEnergyYield', iecName: 'EPId', address: 32114, type: 'U32', gain: 100, unit: 'kWh', description: 'Daily energy yield', category: 'power', group: 'telemetry' }),
+
+	// Grid voltages
+	defineRegister({ name: 'gridVoltageUAB', iecName: 'Uab', address: 32066, type: 'U16', gain: 10, unit: 'V', description: 'Line voltage A-B', category: 'voltages', group: 'telemetry' }),
+	defineRegister({ name: 'gridVoltageUBC', iecName: 'Ubc', address: 32067, type: 'U16', gain: 10, unit: 'V', description: 'Line voltage B-C', category: 'voltages', group: 'telemetry' }),
+	defineRegister({ name: 'gridVoltageUCA', iecName: 'Uca', address: 32068, type: 'U16', gain: 10, unit: 'V', description: 'Line voltage C-A', category: 'voltages', group: 'telemetry' }),
+	defineRegister({ name: 'phaseAVoltage', iecName: 'Ua', address: 32069, type: 'U16', gain: 10, unit: 'V', description: 'Phase A voltage', category: 'voltages', group: 'telemetry' }),
+	defineRegister({ name: 'phaseBVoltage', iecName: 'Ub', address: 32070, type: 'U16', gain: 10, unit: 'V', description: 'Phase B voltage', category: 'voltages', group: 'telemetry' }),
+	defineRegister({ name: 'phaseCVoltage', iecName: 'Uc', address: 32071, type: 'U16', gain: 10, unit: 'V', description: 'Phase C voltage', category: 'voltages', group: 'telemetry' }),
+
+	// Grid currents & frequency
+	defineRegister({ name: 'phaseACurrent', iecName: 'Ia', address: 32072, type: 'I32', gain: 1000, unit: 'A', description: 'Phase A current', category: 'currents', group: 'telemetry' }),
+	defineRegister({ name: 'phaseBCurrent', iecName: 'Ib', address: 32074, type: 'I32', gain: 1000, unit: 'A', description: 'Phase B current', category: 'currents', group: 'telemetry' }),
+	defineRegister({ name: 'phaseCCurrent', iecName: 'Ic', address: 32076, type: 'I32', gain: 1000, unit: 'A', description: 'Phase C current', category: 'currents', group: 'telemetry' }),
+	defineRegister({ name: 'gridFrequency', iecName: 'Fr', address: 32085, type: 'U16', gain: 100, unit: 'Hz', description: 'Grid frequency', category: 'currents', group: 'telemetry' }),
+
+	// Status & temperature
+	defineRegister({ name: 'operatingState', address: 32000, type: 'BITFIELD', description: 'Operating state bitfield', category: 'status', group: 'status' }),
+	defineRegister({ name: 'runningStatus', address: 32002, type: 'BITFIELD', description: 'Running status bitfield', category: 'status', group: 'status' }),
+	defineRegister({ name: 'internalTemperature', iecName: 'TempInt', address: 32087, type: 'I16', gain: 10, unit: '°C', description: 'Internal temperature', category: 'status', group: 'telemetry' }),
+	defineRegister({ name: 'insulationResistance', address: 32088, type: 'U16', gain: 1000, unit: 'MΩ', description: 'Insulation resistance', category: 'status', group: 'telemetry' }),
+	defineRegister({ name: 'deviceStatus', address: 32089, type: 'ENUM', description: 'Device status code', category: 'status', group: 'status' }),
+
+	// Alarms & faults
+	defineRegister({ name: 'alarm1', address: 32008, type: 'BITFIELD', description: 'Alarm register 1', category: 'alarms', group: 'status' }),
+	defineRegister({ name: 'alarm2', address: 32009, type: 'BITFIELD', description: 'Alarm register 2', category: 'alarms', group: 'status' }),
+	defineRegister({ name: 'alarm3', address: 32010, type: 'BITFIELD', description: 'Alarm register 3', category: 'alarms', group: 'status' }),
+	defineRegister({ name: 'faultCode', address: 32090, type: 'U16', description: 'Current fault code', category: 'alarms', group: 'status' }),
+
+	// Power meter (DTSU666 connected to the inverter; power > 0 = export, < 0 = import)
+	defineRegister({ name: 'meterStatus', address: 37100, type: 'ENUM', description: 'Meter status', category: 'meter', group: 'meter', enumValues: METER_STATUS }),
+	defineRegister({ name: 'meterPhaseAVoltage', iecName: 'MtrUa', address: 37101, type: 'I32', gain: 10, unit: 'V', description: 'Meter phase A voltage', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseBVoltage', iecName: 'MtrUb', address: 37103, type: 'I32', gain: 10, unit: 'V', description: 'Meter phase B voltage', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseCVoltage', iecName: 'MtrUc', address: 37105, type: 'I32', gain: 10, unit: 'V', description: 'Meter phase C voltage', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseACurrent', iecName: 'MtrIa', address: 37107, type: 'I32', gain: 100, unit: 'A', description: 'Meter phase A current', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseBCurrent', iecName: 'MtrIb', address: 37109, type: 'I32', gain: 100, unit: 'A', description: 'Meter phase B current', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseCCurrent', iecName: 'MtrIc', address: 37111, type: 'I32', gain: 100, unit: 'A', description: 'Meter phase C current', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterActivePower', iecName: 'MtrP', address: 37113, type: 'I32', gain: 1000, unit: 'kW', description: 'Meter active power (export +, import -)', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterReactivePower', iecName: 'MtrQ', address: 37115, type: 'I32', gain: 1000, unit: 'kvar', description: 'Meter reactive power', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPowerFactor', iecName: 'MtrPF', address: 37117, type: 'I16', gain: 1000, description: 'Meter power factor', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterFrequency', iecName: 'MtrFr', address: 37118, type: 'I16', gain: 100, unit: 'Hz', description: 'Meter grid frequency', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterExportedEnergy', iecName: 'MtrEPexp', address: 37119, type: 'I32', gain: 100, unit: 'kWh', description: 'Total energy exported to the grid', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterImportedEnergy', iecName: 'MtrEPimp', address: 37121, type: 'I32', gain: 100, unit: 'kWh', description: 'Total energy imported from the grid', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterReactiveEnergy', iecName: 'MtrEQ', address: 37123, type: 'I32', gain: 100, unit: 'kvarh', description: 'Accumulated reactive energy', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterType', address: 37125, type: 'ENUM', description: 'Meter type', category: 'meter', group: 'meter', enumValues: METER_TYPES }),
+	defineRegister({ name: 'meterVoltageUAB', iecName: 'MtrUab', address: 37126, type: 'I32', gain: 10, unit: 'V', description: 'Meter line voltage A-B', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterVoltageUBC', iecName: 'MtrUbc', address: 37128, type: 'I32', gain: 10, unit: 'V', description: 'Meter line voltage B-C', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterVoltageUCA', iecName: 'MtrUca', address: 37130, type: 'I32', gain: 10, unit: 'V', description: 'Meter line voltage C-A', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseAActivePower', iecName: 'MtrPa', address: 37132, type: 'I32', gain: 1000, unit: 'kW', description: 'Meter phase A active power', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseBActivePower', iecName: 'MtrPb', address: 37134, type: 'I32', gain: 1000, unit: 'kW', description: 'Meter phase B active power', category: 'meter', group: 'meter' }),
+	defineRegister({ name: 'meterPhaseCActivePower', iecName: 'MtrPc', address: 37136, type: 'I32', gain: 1000, unit: 'kW', description: 'Meter phase C active power', category: 'meter', group: 'meter' }),
+
+	// Battery (LUNA2000 energy storage, all units combined)
+	defineRegister({ name: 'batteryStateOfCharge', iecName: 'SoC', address: 37760, type: 'U16', gain: 10, unit: '%', description: 'Battery state of charge', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryRunningStatus', iecName: 'BatSt', address: 37762, type: 'ENUM', description: 'Battery running status', category: 'battery', group: 'battery', enumValues: BATTERY_RUNNING_STATUS }),
+	defineRegister({ name: 'batteryPower', iecName: 'Pbat', address: 37765, type: 'I32', gain: 1000, unit: 'kW', description: 'Battery charge (+) / discharge (-) power', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryTotalCharge', iecName: 'EbatCha', address: 37780, type: 'U32', gain: 100, unit: 'kWh', description: 'Total energy charged', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryTotalDischarge', iecName: 'EbatDsch', address: 37782, type: 'U32', gain: 100, unit: 'kWh', description: 'Total energy discharged', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryDailyCharge', iecName: 'EbatChaD', address: 37784, type: 'U32', gain: 100, unit: 'kWh', description: 'Energy charged today', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryDailyDischarge', iecName: 'EbatDschD', address: 37786, type: 'U32', gain: 100, unit: 'kWh', description: 'Energy discharged today', category: 'battery', group: 'battery' }),
+	defineRegister({ name: 'batteryWorkingMode', iecName: 'BatMod', address: 47086, type: 'ENUM', description: 'Battery working mode', category: 'battery', group: 'battery', enumValues: BATTERY_WORKING_MODES }),
+];
+
+/**
+ * SUN2000 alarm bits of the alarm registers 32008-32010
+ */
+export const SUN2000_ALARMS: AlarmDefinition[] = [
+	// Alarm register 1 (32008)
+	{ id: 2001, register: 'alarm1', address: 32008, bit: 0, name: 'High String Input Voltage', severity: AlarmSeverity.Major, cause: 'The PV array has too many modules in series, so the open-circuit voltage exceeds the maximum input voltage', suggestion: 'Reduce the number of modules in series until the open-circuit voltage is below the maximum input voltage' },
+	{ id: 2002, register: 'alarm1', address: 32008, bit: 1, name: 'DC Arc Fault', severity: AlarmSeverity.Major, cause: 'Arcing on a PV string caused by loose connectors or damaged cables', suggestion: 'Check the PV string cables and connectors for damage or poor contact' },
+	{ id: 2011, register: 'alarm1', address: 32008, bit: 2, name: 'String Reverse Connection', severity: AlarmSeverity.Major, cause: 'A PV string is connected with reversed polarity', suggestion: 'Check and correct the polarity of the PV string' },
+	{ id: 2012, register: 'alarm1', address: 32008, bit: 3, name: 'String Current Backfeed', severity: AlarmSeverity.Warning, cause: 'A string has too few modules or is shaded or faulty, so current flows back into it', suggestion: 'Check the number of modules, shading and module health of the string' },
+	{ id: 2013, register: 'alarm1', address: 32008, bit: 4, name: 'Abnormal String Power', severity: AlarmSeverity.Warning, cause: 'A PV string is shaded or soiled, or its modules are degraded', suggestion: 'Check the string for shading and soiling, and the modules for damage' },
+	{ id: 2021, register: 'alarm1', address: 32008, bit: 5, name: 'AFCI Self-Check Fail', severity: AlarmSeverity.Major, cause: 'The arc-fault circuit interrupter failed its self-check', suggestion: 'Restart the inverter; contact support if the alarm persists' },
+	{ id: 2031, register: 'alarm1', address: 32008, bit: 6, name: 'Phase Wire Short-Circuited to PE', severity: AlarmSeverity.Major, cause: 'The impedance of an output phase wire to PE is low or short-circuited', suggestion: 'Check the impedance of the output phase wires to PE and fix the short circuit' },
+	{ id: 2032, register: 'alarm1', address: 32008, bit: 7, name: 'Grid Loss', severity: AlarmSeverity.Major, cause: 'Grid outage, or the AC circuit or AC switch is disconnected', suggestion: 'Check the grid voltage and that the AC circuit and switch are connected' },
+	{ id: 2033, register: 'alarm1', address: 32008, bit: 8, name: 'Grid Undervoltage', severity: AlarmSeverity.Major, cause: 'The grid voltage is below the lower threshold for longer than allowed', suggestion: 'No action if occasional; otherwise check the grid voltage and, with approval from the grid operator, adjust the protection threshold' },
+	{ id: 2034, register: 'alarm1', address: 32008, bit: 9, name: 'Grid Overvoltage', severity: AlarmSeverity.Major, cause: 'The grid voltage exceeds the upper threshold, or the AC cable impedance is too high', suggestion: 'Check the grid voltage and the AC cable cross-section; with approval from the grid operator, adjust the protection threshold' },
+	{ id: 2035, register: 'alarm1', address: 32008, bit: 10, name: 'Grid Voltage Imbalance', severity: AlarmSeverity.Major, cause: 'The difference between the phase voltages exceeds the threshold', suggestion: 'Check the phase voltages and the AC cable connections' },
+	{ id: 2036, register: 'alarm1', address: 32008, bit: 11, name: 'Grid Overfrequency', severity: AlarmSeverity.Major, cause: 'The grid frequency is above the upper threshold', suggestion: 'No action if occasional; otherwise, with approval from the grid operator, adjust the protection threshold' },
+	{ id: 2037, register: 'alarm1', address: 32008, bit: 12, name: 'Grid Underfrequency', severity: AlarmSeverity.Major, cause: 'The grid frequency is below the lower threshold', suggestion: 'No action if occasional; otherwise, with approval from the grid operator, adjust the protection threshold' },
+	{ id: 2038, register: 'alarm1', address: 32008, bit: 13, name: 'Unstable Grid Frequency', severity: AlarmSeverity.Major, cause: 'The rate of change of the grid frequency exceeds the threshold', suggestion: 'No action if occasional; otherwise check the grid frequency' },
+	{ id: 2039, register: 'alarm1', address: 32008, bit: 14, name: 'Output Overcurrent', severity: AlarmSeverity.Major, cause: 'The grid voltage dropped sharply or the grid is short-circuited', suggestion: 'No action if occasional; contact support if the alarm recurs' },
+	{ id: 2040, register: 'alarm1', address: 32008, bit: 15, name: 'Output DC Component Overhigh', severity: AlarmSeverity.Major, cause: 'The DC component of the output current exceeds the upper threshold', suggestion: 'Check the grid connection; contact support if the alarm persists' },
+
+	// Alarm register 2 (32009)
+	{ id: 2051, register: 'alarm2', address: 32009, bit: 0, name: 'Abnormal Residual Current', severity: AlarmSeverity.Major, cause: 'The insulation resistance of the input side to PE decreased during operation', suggestion: 'Check the insulation of the PV strings and cables to ground' },
+	{ id: 2061, register: 'alarm2', address: 32009, bit: 1, name: 'Abnormal Grounding', severity: AlarmSeverity.Major, cause: 'The PE cable is not connected or the grounding is incorrect', suggestion: 'Check the PE cable connection and the grounding of the inverter' },
+	{ id: 2062, register: 'alarm2', address: 32009, bit: 2, name: 'Low Insulation Resistance', severity: AlarmSeverity.Major, cause: 'A PV string is short-circuited to PE, or the environment is humid', suggestion: 'Check the insulation resistance of the PV strings to ground and fix any short circuit' },
+	{ id: 2063, register: 'alarm2', address: 32009, bit: 3, name: 'Overtemperature', severity: AlarmSeverity.Minor, cause: 'Poor ventilation, high ambient temperature or a fan fault', suggestion: 'Check the ventilation and ambient temperature, and clean the heat sink and fans' },
+	{ id: 2064, register: 'alarm2', address: 32009, bit: 4, name: 'Device Fault', severity: AlarmSeverity.Major, cause: 'An unrecoverable fault occurred in an internal circuit', suggestion: 'Restart the inverter; contact support if the alarm persists' },
+	{ id: 2065, register: 'alarm2', address: 32009, bit: 5, name: 'Upgrade Failed or Version Mismatch', severity: AlarmSeverity.Minor, cause: 'A firmware upgrade did not complete, or component versions do not match', suggestion: 'Upgrade the firmware again' },
+	{ id: 2066, register: 'alarm2', address: 32009, bit: 6, name: 'License Expired', severity: AlarmSeverity.Warning, cause: 'A feature license has expired', suggestion: 'Apply for and load a new license' },
+	{ id: 61440, register: 'alarm2', address: 32009, bit: 7, name: 'Faulty Monitoring Unit', severity: AlarmSeverity.Minor, cause: 'The flash memory of the monitoring unit is full or damaged', suggestion: 'Restart the inverter; contact support if the alarm persists' },
+	{ id: 2067, register: 'alarm2', address: 32009, bit: 8, name: 'Faulty Power Collector', severity: AlarmSeverity.Major, cause: 'The power meter is disconnected or its communication settings are wrong', suggestion: 'Check the meter cable and its communication settings' },
+	{ id: 2068, register: 'alarm2', address: 32009, bit: 9, name: 'Battery Abnormal', severity: AlarmSeverity.Minor, cause: 'The battery is faulty or disconnected, or its breaker is off', suggestion: 'Check the battery wiring and breaker; contact support if the alarm persists' },
+	{ id: 2070, register: 'alarm2', address: 32009, bit: 10, name: 'Active Islanding', severity: AlarmSeverity.Major, cause: 'The grid is lost while the inverter output still detects a voltage', suggestion: 'Check that the grid is connected; the inverter reconnects when the grid recovers' },
+	{ id: 2071, register: 'alarm2', address: 32009, bit: 11, name: 'Passive Islanding', severity: AlarmSeverity.Major, cause: 'The grid is lost while the inverter output still detects a voltage', suggestion: 'Check that the grid is connected; the inverter reconnects when the grid recovers' },
+	{ id: 2072, register: 'alarm2', address: 32009, bit: 12, name: 'Transient AC Overvoltage', severity: AlarmSeverity.Major, cause: 'The grid voltage spiked above the transient overvoltage threshold', suggestion: 'Check the grid voltage; contact the grid operator if the alarm recurs' },
+	{ id: 2075, register: 'alarm2', address: 32009, bit: 13, name: 'Peripheral Port Short Circuit', severity: AlarmSeverity.Warning, cause: 'A short circuit on the peripheral power port', suggestion: 'Check the cables on the peripheral port' },
+	{ id: 2077, register: 'alarm2', address: 32009, bit: 14, name: 'Churn Output Overload', severity: AlarmSeverity.Major, cause: 'The backup (off-grid) load exceeds the output capacity', suggestion: 'Reduce the load on the backup output' },
+	{ id: 2080, register: 'alarm2', address: 32009, bit: 15, name: 'Abnormal PV Module Configuration', severity: AlarmSeverity.Major, cause: 'The PV strings are not configured as required (e.g. mismatched strings on one MPPT)', suggestion: 'Check the PV string configuration against the inverter requirements' },
+
+	// Alarm register 3 (32010)
+	{ id: 2081, register: 'alarm3', address: 32010, bit: 0, name: 'Optimizer Fault', severity: AlarmSeverity.Warning, cause: 'An optimizer is faulty or offline', suggestion: 'Check the optimizer status in the app and replace faulty optimizers' },
+	{ id: 2085, register: 'alarm3', address: 32010, bit: 1, name: 'Built-in PID Operation Abnormal', severity: AlarmSeverity.Minor, cause: 'The built-in PID recovery module is faulty', suggestion: 'Restart the inverter; contact support if the alarm persists' },
+	{ id: 2014, register: 'alarm3', address: 32010, bit: 2, name: 'High Input String Voltage to Ground', severity: AlarmSeverity.Major, cause: 'The voltage between the PV strings and ground is too high', suggestion: 'Check the PV string insulation and the grounding' },
+	{ id: 2086, register: 'alarm3', address: 32010, bit: 3, name: 'External Fan Abnormal', severity: AlarmSeverity.Major, cause: 'An external fan is blocked, short-circuited or damaged', suggestion: 'Remove any blockage and check the fan; replace it if needed' },
+	{ id: 2069, register: 'alarm3', address: 32010, bit: 4, name: 'Battery Reverse Connection', severity: AlarmSeverity.Major, cause: 'The battery cables are connected with reversed polarity', suggestion: 'Switch off the battery and correct the cable polarity' },
+	{ id: 2082, register: 'alarm3', address: 32010, bit: 5, name: 'On-grid/Off-grid Controller Abnormal', severity: AlarmSeverity.Major, cause: 'The backup box (on/off-grid controller) is faulty or disconnected', suggestion: 'Check the backup box cabling and status' },
+	{ id: 2015, register: 'alarm3', address: 32010, bit: 6, name: 'PV String Loss', severity: AlarmSeverity.Warning, cause: 'A PV string is disconnected or its fuse is blown', suggestion: 'Check the PV string connections and fuses' },
+	{ id: 2087, register: 'alarm3', address: 32010, bit: 7, name: 'Internal Fan Abnormal', severity: AlarmSeverity.Major, cause: 'An internal fan is faulty', suggestion: 'Restart the inverter; contact support to replace the fan if the alarm persists' },
+	{ id: 2088, register: 'alarm3', address: 32010, bit: 8, name: 'DC Protection Unit Abnormal', severity: AlarmSeverity.Major, cause: 'The DC protection unit is faulty', suggestion: 'Restart the inverter; contact support if the alarm persists' },
+	{ id: 2089, register: 'alarm3', address: 32010, bit: 9, name: 'EL Unit Abnormal', severity: AlarmSeverity.Minor, cause: 'The electroluminescence test unit is faulty', suggestion: 'Contact support' },
+	{ id: 2090, register: 'alarm3', address: 32010, bit: 10, name: 'Active Adjustment Instruction Abnormal', severity: AlarmSeverity.Major, cause: 'The active power dispatch instruction is out of range or inconsistent', suggestion: 'Check the active power dispatch settings' },
+	{ id: 2091, register: 'alarm3', address: 32010, bit: 11, name: 'Reactive Adjustment Instruction Abnormal', severity: AlarmSeverity.Major, cause: 'The reactive power dispatch instruction is out of range or inconsistent', suggestion: 'Check the reactive power dispatch settings' },
+	{ id: 2092, register: 'alarm3', address: 32010, bit: 12, name: 'CT Wiring Abnormal', severity: AlarmSeverity.Major, cause: 'The current transformers of the meter are connected in the wrong direction or phase', suggestion: 'Check the CT wiring of the power meter' },
+	{ id: 2003, register: 'alarm3', address: 32010, bit: 13, name: 'DC Arc Fault (ADMC - Manual Clear Required)', severity: AlarmSeverity.Major, cause: 'An arc fault was detected and must be cleared manually', suggestion: 'Check the PV string cables and connectors, then clear the alarm in the app' },
+	{ id: 2093, register: 'alarm3', address: 32010, bit: 14, name: 'DC Switch Abnormal', severity: AlarmSeverity.Minor, cause: 'The DC switch is faulty or was operated under load', suggestion: 'Check the DC switch; contact support if the alarm persists' },
+	{ id: 2094, register: 'alarm3', address: 32010, bit: 15, name: 'Low Battery Discharge Capacity', severity: AlarmSeverity.Warning, cause: 'The battery state of charge reached the discharge cut-off', suggestion: 'Charge the battery or check the discharge cut-off setting' },
+];
+
+/**
+ * Remapped register definitions (address = offset from the inverter's remapped base)
+ * Base: 51000 + (25 × (Device Address - 1)), read from unit 0
+ */
+export const SUN2000_REMAPPED_REGISTERS: RegisterDefinition[] = [
+	defineRegister({ name: 'activePower', iecName: 'P', address: 0, type: 'I32', gain: 1000, unit: 'kW', description: 'Active power', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'reactivePower', iecName: 'Q', address: 2, type: 'I32', gain: 1000, unit: 'kvar', description: 'Reactive power', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'dcCurrent', iecName: 'dcI', address: 4, type: 'I16', gain: 100, unit: 'A', description: 'DC current', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'inputPower', iecName: 'dcP', address: 5, type: 'U32', gain: 1000, unit: 'kW', description: 'DC input power', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'powerFactor', iecName: 'PF', address: 8, type: 'I16', gain: 1000, description: 'Power factor', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'status', address: 9, type: 'U16', description: 'Status code (legacy)', category: 'remapped', group: 'status' }),
+	defineRegister({ name: 'cabinetTemperature', iecName: 'TempCab', address: 11, type: 'I16', gain: 10, unit: '°C', description: 'Cabinet temperature', category: 'remapped', group: 'telemetry' }),
+	defineRegister({ name: 'majorFault', address: 12, type: 'U32', description: 'Major fault code', category: 'remapped', group: 'status' }),
+	defineRegister({ name: 'minorFault', address: 14, type: 'U32', description: 'Minor fault code', category: 'remapped', group: 'status' }),
+	defineRegister({ name: 'warning', address: 16, type: 'U32', description: 'Warning code', category: 'remapped', group: 'status' }),
+];
+
+/**
+ * Direct-access equivalents of the remapped telemetry, read instead of the remapped
+ * block when connected to the inverter without a SmartLogger (same output names)
+ */
+export const SUN2000_DIRECT_TELEMETRY_REGISTERS: RegisterDefinition[] = [
+	defineRegister({ name: 'activePower', iecName: 'P', address: 32080, type: 'I32', gain: 1000, unit: 'kW', description: 'Active power', category: 'direct', group: 'telemetry' }),
+	defineRegister({ name: 'reactivePower', iecName: 'Q', address: 32082, type: 'I32', gain: 1000, unit: 'kvar', description: 'Reactive power', category: 'direct', group: 'telemetry' }),
+	defineRegister({ name: 'inputPower', iecName: 'dcP', address: 32064, type: 'I32', gain: 1000, unit: 'kW', description: 'DC input power', category: 'direct', group: 'telemetry' }),
+	defineRegister({ name: 'powerFactor', iecName: 'PF', address: 32084, type: 'I16', gain: 1000, description: 'Power factor', category: 'direct', group: 'telemetry' }),
+];
+
+/**
+ * Control registers (direct access, written to the inverter's unit ID)
+ * Power-on/shutdown are write-only commands: writing 0 executes the command
+ */
+export const SUN2000_CONTROL_REGISTERS: RegisterDefinition[] = [
+	defineRegister({ name: 'reactivePowerPowerFactor', address: 40122, type: 'I16', gain: 1000, description: 'Reactive power compensation (power factor)', category: 'control' }),
+	defineRegister({ name: 'reactivePowerRatio', address: 40123, type: 'I16', gain: 1000, description: 'Reactive power compensation (Q/S)', category: 'control' }),
+	defineRegister({ name: 'activePowerPercentDerating', address: 40125, type: 'I16', gain: 10, unit: '%', description: 'Active power percentage derating', category: 'control' }),
+	defineRegister({ name: 'activePowerFixedDerating', address: 40126, type: 'U32', gain: 1000, unit: 'kW', description: 'Fixed active power derating', category: 'control' }),
+	defineRegister({ name: 'powerOn', address: 40200, type: 'U16', description: 'Power-on command', category: 'control' }),
+	defineRegister({ name: 'shutdown', address: 40201, type: 'U16', description: 'Shutdown command', category: 'control' }),
+
+	// Battery (LUNA2000)
+	defineRegister({ name: 'batteryMaxChargePower', address: 47075, type: 'U32', gain: 1000, unit: 'kW', description: 'Maximum battery charge power', category: 'control' }),
+	defineRegister({ name: 'batteryMaxDischargePower', address: 47077, type: 'U32', gain: 1000, unit: 'kW', description: 'Maximum battery discharge power', category: 'control' }),
+	defineRegister({ name: 'batteryForcedDuration', address: 47083, type: 'U16', unit: 'min', description: 'Forced charge/discharge duration', category: 'control' }),
+	defineRegister({ name: 'batteryWorkingMode', address: 47086, type: 'ENUM', description: 'Battery working mode', category: 'control', enumValues: BATTERY_WORKING_MODES }),
+	defineRegister({ name: 'batteryGridCharging', address: 47087, type: 'U16', description: 'Charge battery from grid', category: 'control', transform: Boolean }),
+	defineRegister({ name: 'batteryForcedCommand', address: 47100, type: 'U16', description: 'Forced charge/discharge command (0 = stop, 1 = charge, 2 = discharge)', category: 'control' }),
+	defineRegister({ name: 'batteryForcedSettingMode', address: 47246, type: 'U16', description: 'Forced charge/discharge setting mode (0 = duration, 1 = target SOC)', category: 'control' }),
+	defineRegister({ name: 'batteryForcedChargePower', address: 47247, type: 'U32', gain: 1000, unit: 'kW', description: 'Forced charge power', category: 'control' }),
+	defineRegister({ name: 'batteryForcedDischargePower', address: 47249, type: 'U32', gain: 1000, unit: 'kW', description: 'Forced discharge power', category: 'control' }),
+	defineRegister({ name: 'batteryTouPeriods', address: 47255, length: 43, type: 'U16', description: 'Time-of-use periods (count, then 14 × start, end, flags)', category: 'control' }),
+];
+
+/**
+ * LUNA2000 time-of-use schedule layout (register 47255)
+ * Word 0: number of periods; then per period: start minute, end minute,
+ * and (0 = charge / 1 = discharge) << 8 | day mask (bit 0 = Sunday ... bit 6 = Saturday)
+ */
+export const MAX_TOU_PERIODS = 14;
+
+/**
+ * PV string registers: string n voltage at 32014 + (2×n), current at 32015 + (2×n)
+ * Voltage I16 gain=10, current I16 gain=100
+ */
+export const PV_STRING_BASE_REGISTER = 32016;
+export const MAX_PV_STRINGS = 24;
+
+/**
+ * PV string list and the fields of each entry (power = voltage × current)
+ */
+export const PV_STRINGS_FIELD: FieldDefinition = { name: 'pvStrings', iecName: 'pv', description: 'PV strings' };
+
+export const PV_STRING_FIELDS: Record<'stringNumber' | 'voltage' | 'current' | 'power', FieldDefinition> = {
+	stringNumber: { name: 'stringNumber', iecName: 'n', description: 'PV string number' },
+	voltage: { name: 'voltage', iecName: 'U', unit: 'V', description: 'PV string voltage' },
+	current: { name: 'current', iecName: 'I', unit: 'A', description: 'PV string current' },
+	power: { name: 'power', iecName: 'P', unit: 'W', description: 'PV string power' },
+};
+
+/**
+ * LUNA2000 battery pack registers (energy storage unit 1, up to 3 packs)
+ * Pack n SOC at 38229 + 42×(n-1), U16 gain=10
+ * Pack n max/min temperature at 38452 + 2×(n-1) / +1, I16 gain=10
+ */
+export const BATTERY_PACK_SOC_BASE_REGISTER = 38229;
+export const BATTERY_PACK_SOC_STRIDE = 42;
+export const BATTERY_PACK_TEMPERATURE_BASE_REGISTER = 38452;
+export const MAX_BATTERY_PACKS = 3;
+
+/**
+ * Battery pack list and the fields of each entry
+ */
+export const BATTERY_PACKS_FIELD: FieldDefinition = { name: 'batteryPacks', iecName: 'packs', description: 'Battery packs' };
+
+export const BATTERY_PACK_FIELDS: Record<'packNumber' | 'stateOfCharge' | 'maxTemperature' | 'minTemperature', FieldDefinition> = {
+	packNumber: { name: 'packNumber', iecName: 'n', description: 'Battery pack number' },
+	stateOfCharge: { name: 'stateOfCharge', iecName: 'SoC', unit: '%', description: 'Battery pack state of charge' },
+	maxTemperature: { name: 'maxTemperature', iecName: 'TmpMax', unit: '°C', description: 'Battery pack maximum temperature' },
+	minTemperature: { name: 'minTemperature', iecName: 'TmpMin', unit: '°C', description: 'Battery pack minimum temperature' },
+};
+
+/**
+ * Reserved ranges inside the 32000 block that are never read as part of a larger block
+ */
+export const SUN2000_REGISTER_GAPS: RegisterRange[] = [
+	{ address: 32003, count: 5 },
+	{ address: 32011, count: 5 },
+];
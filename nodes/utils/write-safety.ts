@@ -0,0 +1,297 @@
+/**
+ * Modbus Write Safety Interlocks
+ *
+ * Guardrails shared by every write issued from the nodes: an allowlist of
+ * writable registers per device type with min/max bounds, an explicit arm
+ * switch, a minimum interval between writes to the same register (stop
+ * commands exempt), a dry-run mode, and an audit record for every attempt.
+ */
+
+import { HuaweiModbusClient, WriteOptions, connectionKey } from './modbus-utils';
+import {
+	DecodedValue,
+	RegisterDefinition,
+	RegisterWriteResult,
+	encodeRegister,
+	readRegisters,
+	writeEncodedRegisters,
+} from './register-map';
+
+export type WriteDeviceType = 'sun2000' | 'smartlogger';
+
+/**
+ * Limits for a writable register (engineering units, after gain)
+ */
+export interface WritePolicy {
+	min: number;
+	max: number;
+	command?: boolean;           // Write-only command register (no old value to read)
+	stopValues?: number[];       // Values that stop or de-energise; never rate limited
+}
+
+/**
+ * Registers that may be written per device type, keyed by register name
+ * Anything not listed here is rejected before it reaches the device
+ */
+export const WRITE_ALLOWLIST: Record<WriteDeviceType, Record<string, WritePolicy>> = {
+	sun2000: {
+		reactivePowerPowerFactor: { min: -1, max: 1 },
+		reactivePowerRatio: { min: -1, max: 1 },
+		activePowerPercentDerating: { min: 0, max: 100, stopValues: [0] },
+		activePowerFixedDerating: { min: 0, max: 1000, stopValues: [0] },
+		powerOn: { min: 0, max: 0, command: true },
+		shutdown: { min: 0, max: 0, command: true, stopValues: [0] },
+		batteryWorkingMode: { min: 0, max: 6 },
+		batteryMaxChargePower: { min: 0, max: 1000 },
+		batteryMaxDischargePower: { min: 0, max: 1000 },
+		batteryGridCharging: { min: 0, max: 1 },
+		batteryForcedSettingMode: { min: 0, max: 1 },
+		batteryForcedChargePower: { min: 0, max: 1000 },
+		batteryForcedDischargePower: { min: 0, max: 1000 },
+		batteryForcedDuration: { min: 0, max: 1440 },
+		batteryForcedCommand: { min: 0, max: 2, command: true, stopValues: [0] },  // 0 = stop
+		batteryTouPeriods: { min: 0, max: 14 },  // Number of periods; the schedule is encoded by the caller
+	},
+	smartlogger: {
+		plantActivePowerLimit: { min: 0, max: 100000, stopValues: [0] },
+		plantReactivePower: { min: -100000, max: 100000 },
+		plantPowerFactor: { min: -1, max: 1 },
+		plantActivePowerPercent: { min: 0, max: 100, stopValues: [0] },
+	},
+};
+
+/**
+ * Default minimum time between two writes to the same register (seconds)
+ */
+export const DEFAULT_MIN_WRITE_INTERVAL = 10;
+
+/**
+ * Who issued the write (taken from the n8n workflow/execution)
+ */
+export interface WriteAuditContext {
+	workflowId?: string;
+	workflowName?: string;
+	executionId?: string;
+	nodeName?: string;
+}
+
+export interface WriteGuardOptions {
+	armed?: boolean;             // Writes are blocked unless explicitly armed (default: false)
+	dryRun?: boolean;            // Report what would be written without writing (default: false)
+	minWriteInterval?: number;   // Seconds between writes to the same register (default: 10)
+	context?: WriteAuditContext;
+}
+
+export type WriteAuditOutcome = 'written' | 'verified' | 'verifyFailed' | 'failed' | 'blocked' | 'dryRun';
+
+export interface WriteAuditRecord {
+	timestamp: string;           // ISO time of the attempt
+	workflowId?: string;
+	workflowName?: string;
+	executionId?: string;
+	nodeName?: string;
+	deviceType: WriteDeviceType;
+	target: string;              // host:port (or serial port) of the Modbus connection
+	unitId?: number;
+	register: string;
+	address: number;
+	oldValue?: DecodedValue;     // Value before the write (omitted for commands or when unreadable)
+	newValue: number;            // Requested value in engineering units
+	registers: number[];         // Encoded register values
+	outcome: WriteAuditOutcome;
+	error?: string;
+}
+
+export interface GuardedWriteResult extends RegisterWriteResult {
+	dryRun?: boolean;
+	blocked?: boolean;
+	audit: WriteAuditRecord;
+}
+
+/**
+ * Last successful write time per target/unit/register, shared by all executions in this process
+ * Entries older than the checked interval are dropped on every check
+ */
+const lastWriteTimes = new Map<string, number>();
+
+/**
+ * Write guard enforcing the safety interlocks in front of HuaweiModbusClient writes
+ */
+export class WriteGuard {
+	constructor(
+		private client: HuaweiModbusClient,
+		private deviceType: WriteDeviceType,
+		private options: WriteGuardOptions = {}
+	) {}
+
+	/**
+	 * Check the interlocks, then write (or simulate) an engineering value
+	 * Never throws; a rejected write is returned as an unsuccessful, blocked result
+	 */
+	async write(
+		definition: RegisterDefinition,
+		value: number,
+		unitId?: number,
+		writeOptions: WriteOptions = {}
+	): Promise<GuardedWriteResult> {
+		return this.guardedWrite(definition, value, undefined, unitId, writeOptions);
+	}
+
+	/**
+	 * Same interlocks for register words encoded by the caller (e.g. a time-of-use schedule)
+	 * The policy bounds apply to the engineering value the words stand for
+	 */
+	async writeEncoded(
+		definition: RegisterDefinition,
+		value: number,
+		registers: number[],
+		unitId?: number,
+		writeOptions: WriteOptions = {}
+	): Promise<GuardedWriteResult> {
+		return this.guardedWrite(definition, value, registers, unitId, writeOptions);
+	}
+
+	private async guardedWrite(
+		definition: RegisterDefinition,
+		value: number,
+		registers: number[] | undefined,
+		unitId: number | undefined,
+		writeOptions: WriteOptions
+	): Promise<GuardedWriteResult> {
+		const config = this.client.getConfig();
+		const target = connectionKey(config);
+		const rateKey = `${target}/${unitId ?? config.unitId}/${definition.address}`;
+		const policy = WRITE_ALLOWLIST[this.deviceType][definition.name];
+
+		const audit: WriteAuditRecord = {
+			timestamp: new Date().toISOString(),
+			...this.options.context,
+			deviceType: this.deviceType,
+			target,
+			...(unitId !== undefined && { unitId }),
+			register: definition.name,
+			address: definition.address,
+			newValue: value,
+			registers: [],
+			outcome: 'blocked',
+		};
+
+		const rejection = this.checkInterlocks(definition, value, policy, rateKey, registers);
+		if (rejection) {
+			return this.reject(definition, value, audit, rejection);
+		}
+
+		audit.registers = registers ?? encodeRegister(definition, value);
+
+		if (!policy.command) {
+			const current = await readRegisters(this.client, [definition], unitId);
+			if (current[definition.name] !== undefined) {
+				audit.oldValue = current[definition.name];
+			}
+		}
+
+		if (this.options.dryRun) {
+			audit.outcome = 'dryRun';
+			return {
+				success: true,
+				dryRun: true,
+				field: definition.name,
+				address: definition.address,
+				values: audit.registers,
+				requestedValue: value,
+				audit,
+			};
+		}
+
+		const result = await writeEncodedRegisters(this.client, definition, audit.registers, value, unitId, writeOptions);
+
+		// Only writes the device accepted count for the rate limit (a read-back mismatch was still written)
+		if (result.success || result.verified === false) {
+			lastWriteTimes.set(rateKey, Date.now());
+		}
+
+		if (result.success) {
+			audit.outcome = result.verified ? 'verified' : 'written';
+		} else {
+			audit.outcome = result.verified === false ? 'verifyFailed' : 'failed';
+			audit.error = result.error;
+		}
+
+		return { ...result, audit };
+	}
+
+	/**
+	 * Returns the reason a write must not be issued, or undefined when it may proceed
+	 */
+	private checkInterlocks(
+		definition: RegisterDefinition,
+		value: number,
+		policy: WritePolicy | undefined,
+		rateKey: string,
+		registers?: number[]
+	): string | undefined {
+		if (!policy) {
+			return `Register ${definition.name} (${definition.address}) is not writable for ${this.deviceType} devices`;
+		}
+
+		if (!Number.isFinite(value) || value < policy.min || value > policy.max) {
+			return `Value ${value} for ${definition.name} is outside the allowed range ${policy.min} to ${policy.max}`;
+		}
+
+		if (registers) {
+			if (registers.length !== definition.length) {
+				return `${definition.name} takes ${definition.length} registers, got ${registers.length}`;
+			}
+		} else {
+			try {
+				encodeRegister(definition, value);
+			} catch (error) {
+				return (error as Error).message;
+			}
+		}
+
+		if (!this.options.armed && !this.options.dryRun) {
+			return 'Writes are not armed. Enable "Arm Writes" to write to the device';
+		}
+
+		const minInterval = (this.options.minWriteInterval ?? DEFAULT_MIN_WRITE_INTERVAL) * 1000;
+		const now = Date.now();
+		for (const [key, time] of lastWriteTimes) {
+			if (now - time >= minInterval) {
+				lastWriteTimes.delete(key);
+			}
+		}
+
+		// Stop and shutdown commands must always go through, even right after a start
+		if (policy.stopValues?.includes(value)) {
+			return undefined;
+		}
+
+		const lastWrite = lastWriteTimes.get(rateKey);
+		if (!this.options.dryRun && lastWrite !== undefined && now - lastWrite < minInterval) {
+			const waitSeconds = Math.ceil((minInterval - (now - lastWrite)) / 1000);
+			return `Rate limited: ${definition.name} was written less than ${minInterval / 1000}s ago (retry in ${waitSeconds}s)`;
+		}
+
+		return undefined;
+	}
+
+	private reject(
+		definition: RegisterDefinition,
+		value: number,
+		audit: WriteAuditRecord,
+		reason: string
+	): GuardedWriteResult {
+		audit.error = reason;
+		return {
+			success: false,
+			blocked: true,
+			field: definition.name,
+			address: definition.address,
+			values: [],
+			requestedValue: value,
+			error: reason,
+			audit,
+		};
+	}
+}